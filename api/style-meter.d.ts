@@ -0,0 +1,120 @@
+/*
+Types for the API that the Style Meter extension returns from `activate`.
+Copy this file into your extension and get the API with:
+
+    const extension = vscode.extensions.getExtension<StyleMeterExtension>('djdupre.style-meter');
+    const api = extension && (await extension.activate()).getApi(1);
+
+Versions only ever get added. A breaking change makes a new version and keeps the old ones working.
+*/
+
+import { Disposable, Event } from 'vscode';
+
+
+export interface StyleMeterExtension {
+    /**
+     * The API versions this release of the extension supports.
+     */
+    readonly apiVersions: number[];
+
+    /**
+     * Get a version of the API. Throws if the version isn't supported.
+     */
+    getApi(version: 1): StyleMeterApi;
+}
+
+
+export interface StyleMeterApi {
+    readonly version: 1;
+
+    /**
+     * Whether the style meter is on. Nothing is scored while it's off.
+     */
+    readonly enabled: boolean;
+
+    /**
+     * Fires whenever the score changes, including decay. Keeps firing across the meter being turned off and on.
+     */
+    readonly onScoreChange: Event<ScoreChangeEvent>;
+
+    /**
+     * Fires whenever the rank changes.
+     */
+    readonly onRankChange: Event<RankChangeEvent>;
+
+    /**
+     * The current score, or 0 while the meter is off.
+     */
+    score(): number;
+
+    /**
+     * The index of the current rank from lowest to highest. -1 means no ranking.
+     */
+    rankIndex(): number;
+
+    /**
+     * The current rank, or undefined below the lowest rank.
+     */
+    rank(): StyleRank | undefined;
+
+    /**
+     * Award style points, or deduct them with negative points.
+     * Awards are scaled like any other source's, by rank, combo and difficulty. Deductions are not.
+     *
+     * @param reason a short description of why the points were awarded
+     */
+    award(points: number, reason: string): void;
+
+    /**
+     * Score a source's awards until the returned disposable is disposed.
+     * Awards are weighted by the user's `styleMeter.sourceWeights` setting for the source's name.
+     *
+     * @param name the name of the source, which must not clash with the built in sources
+     * @throws if the name is taken by a built in source
+     */
+    registerScoringSource(name: string, source: ScoringSource): Disposable;
+}
+
+
+export interface ScoreChangeEvent {
+    rankIndex: number;
+    score: number;
+}
+
+
+export interface RankChangeEvent {
+    rankIndex: number;
+}
+
+
+export interface StyleRank {
+    text: string;      // letter to display for style ranking
+    smallText: string; // the rest of the word started by 'text'
+    score: number;     // minimum score to acquire this rank
+}
+
+
+export interface StyleAwardEvent {
+    /**
+     * Style points to add to the score. Negative values remove style. Must be a finite number.
+     */
+    points: number;
+
+    /**
+     * A short description of why the points were awarded.
+     */
+    reason: string;
+
+    /**
+     * Drop down a whole rank before applying the points.
+     */
+    dropRank?: boolean;
+}
+
+
+/**
+ * Anything that can award or remove style points.
+ */
+export interface ScoringSource {
+    readonly onAward: Event<StyleAwardEvent>;
+}
@@ -0,0 +1,355 @@
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from './config';
+import { Rank } from './rank';
+import { ComboChangeEvent, PauseChangeEvent, RankChangeEvent, ScoreKeeper } from './score-keeper';
+import { classifyChangeEvent } from './sources/change-filter';
+
+
+/**
+ * The globalState key that unlocked achievements are stored under.
+ */
+const ACHIEVEMENTS_KEY = 'styleMeter.achievements';
+
+/**
+ * How often achievements that need a rank held for a while are checked.
+ */
+const HOLD_CHECK_PERIOD_MS = 1000;
+
+
+/**
+ * A goal to unlock once. Every condition given must be met at the same time.
+ */
+export interface Achievement {
+    id: string;
+    name: string;
+    description: string;
+
+    /**
+     * The text of the rank to reach. Any higher rank counts too.
+     */
+    rank?: string;
+
+    /**
+     * How long the rank must be held without dropping below it or pausing.
+     */
+    holdMs?: number;
+
+    /**
+     * Only count the rank in a language other than the ones it was already reached in.
+     */
+    newLanguage?: boolean;
+
+    /**
+     * Only count the rank in a file with at least this many lines.
+     */
+    minLines?: number;
+
+    /**
+     * The combo to reach.
+     */
+    minCombo?: number;
+}
+
+
+/**
+ * The achievements that come with the extension. More can be added with the `achievements` setting.
+ */
+export const BUILTIN_ACHIEVEMENTS: Achievement[] = [
+    {
+        id: 'firstS',
+        name: 'Stylish',
+        description: 'Reach S rank.',
+        rank: 'S',
+    },
+    {
+        id: 'firstSSS',
+        name: 'Smokin\' Sexy Style',
+        description: 'Reach SSS rank.',
+        rank: 'SSS',
+    },
+    {
+        id: 'holdS10m',
+        name: 'Keep It Up',
+        description: 'Hold S rank or higher for 10 minutes.',
+        rank: 'S',
+        holdMs: 600000,
+    },
+    {
+        id: 'newLanguageA',
+        name: 'Polyglot',
+        description: 'Reach A rank in a language you haven\'t reached it in before.',
+        rank: 'A',
+        newLanguage: true,
+    },
+    {
+        id: 'bigFileSSS',
+        name: 'Monolith',
+        description: 'Reach SSS rank in a file of 5000 lines or more.',
+        rank: 'SSS',
+        minLines: 5000,
+    },
+    {
+        id: 'combo100',
+        name: 'Hundred Hit Combo',
+        description: 'Reach a combo of 100.',
+        minCombo: 100,
+    },
+];
+
+
+/**
+ * What is stored in global state.
+ */
+interface AchievementState {
+    /**
+     * Epoch ms each achievement was unlocked, by id.
+     */
+    unlocked: { [id: string]: number };
+
+    /**
+     * The language ids each rank was reached in, by rank text.
+     */
+    rankLanguages: { [rankText: string]: string[] };
+}
+
+
+export interface AchievementUnlockEvent {
+    achievement: Achievement;
+}
+
+
+/**
+ * The built in achievements followed by the ones from settings. A setting with a built in id replaces it.
+ * Achievements for a rank that isn't in the rank ladder, like built in ones with custom ranks, can't be unlocked
+ * and are left out.
+ */
+export function getAchievements(config: StyleMeterConfig): Achievement[] {
+    const ids = config.achievements.map(achievement => achievement.id);
+    const rankTexts = config.ranks.map(rank => rank.text);
+    return BUILTIN_ACHIEVEMENTS.filter(achievement => ids.indexOf(achievement.id) < 0)
+        .concat(config.achievements)
+        .filter(achievement => achievement.rank === undefined || rankTexts.indexOf(achievement.rank) >= 0);
+}
+
+
+/**
+ * Check achievements from settings. Returns a list of error messages, empty if they are all valid.
+ */
+export function validateAchievements(achievements: any, ranks: Rank[]): string[] {
+    const errors: string[] = [];
+
+    if (!Array.isArray(achievements)) {
+        errors.push('achievements must be an array.');
+        return errors;
+    }
+
+    const rankTexts = ranks.map(rank => rank.text);
+    const ids: string[] = [];
+    achievements.forEach((achievement: any, i: number) => {
+        const name = `achievements[${i}]`;
+        if (typeof achievement !== 'object' || achievement === null) {
+            errors.push(`${name} must be an object.`);
+            return;
+        }
+        for (let key of ['id', 'name', 'description']) {
+            if (typeof achievement[key] !== 'string' || achievement[key].length === 0) {
+                errors.push(`${name}.${key} must be a non-empty string.`);
+            }
+        }
+        if (ids.indexOf(achievement.id) >= 0) {
+            errors.push(`${name}.id must be unique.`);
+        }
+        ids.push(achievement.id);
+        if (achievement.rank !== undefined && rankTexts.indexOf(achievement.rank) < 0) {
+            errors.push(`${name}.rank must be one of the rank texts ${rankTexts.join(', ')}.`);
+        }
+        for (let key of ['holdMs', 'minLines', 'minCombo']) {
+            if (achievement[key] !== undefined && !(typeof achievement[key] === 'number' && achievement[key] >= 0)) {
+                errors.push(`${name}.${key} must be a number of at least 0.`);
+            }
+        }
+        if ((achievement.holdMs !== undefined || achievement.newLanguage || achievement.minLines !== undefined) &&
+                achievement.rank === undefined) {
+            errors.push(`${name} needs a rank for holdMs, newLanguage and minLines.`);
+        }
+        if (achievement.rank === undefined && achievement.minCombo === undefined) {
+            errors.push(`${name} needs a rank or a minCombo.`);
+        }
+    });
+
+    return errors;
+}
+
+
+function _loadState(memento: vscode.Memento): AchievementState {
+    return memento.get<AchievementState>(ACHIEVEMENTS_KEY, { unlocked: {}, rankLanguages: {} });
+}
+
+
+/**
+ * List every achievement in a quick pick, unlocked ones with the date they were unlocked.
+ */
+export async function showAchievements(config: StyleMeterConfig, memento: vscode.Memento) {
+    const achievements = getAchievements(config);
+    const unlocked = _loadState(memento).unlocked;
+    const unlockedCount = achievements.filter(achievement => unlocked[achievement.id] !== undefined).length;
+
+    const items: vscode.QuickPickItem[] = achievements.map(achievement => {
+        const time = unlocked[achievement.id];
+        return {
+            label: `${time !== undefined ? '$(check)' : '$(lock)'} ${achievement.name}`,
+            description: achievement.description,
+            detail: time !== undefined ? `Unlocked ${new Date(time).toLocaleString()}` : 'Locked',
+        };
+    });
+    await vscode.window.showQuickPick(items, {
+        placeHolder: `${unlockedCount} of ${achievements.length} achievements unlocked`,
+        matchOnDescription: true,
+    });
+}
+
+
+/**
+ * Checks achievements against the score keeper and the document being edited, and stores the ones unlocked.
+ * Checks happen on rank changes, combo changes, edits and every so often for held ranks.
+ */
+export class AchievementTracker {
+    public _onUnlock = new vscode.EventEmitter<AchievementUnlockEvent>();
+
+    private _achievements: Achievement[];
+
+    // when each rank, by index, was last reached and held since. Undefined while below it or paused
+    private _heldSince: (number | undefined)[];
+
+    private _timer: NodeJS.Timer;
+
+    private _disposables: vscode.Disposable[] = [
+        this._onUnlock,
+    ];
+
+    constructor(public readonly config: StyleMeterConfig, private readonly _scoreKeeper: ScoreKeeper,
+            private readonly _memento: vscode.Memento) {
+        this._achievements = getAchievements(config);
+        this._heldSince = config.ranks.map(() => undefined);
+        this._hold();
+
+        this._scoreKeeper.onRankChange(this._onRankChange, this, this._disposables);
+        this._scoreKeeper.onComboChange(this._onComboChange, this, this._disposables);
+        this._scoreKeeper.onPauseChange(this._onPauseChange, this, this._disposables);
+        vscode.workspace.onDidChangeTextDocument(this._onDidChangeTextDocument, this, this._disposables);
+
+        this._timer = setInterval(() => this._check(), HOLD_CHECK_PERIOD_MS);
+    }
+
+    get onUnlock() {
+        return this._onUnlock.event;
+    }
+
+    public dispose(): void {
+        for (let d of this._disposables) {
+            d.dispose();
+        }
+        clearInterval(this._timer);
+    }
+
+    private _onRankChange(event: RankChangeEvent) {
+        this._hold();
+        this._check();
+    }
+
+    private _onComboChange(event: ComboChangeEvent) {
+        if (event.combo > 0) {
+            this._check();
+        }
+    }
+
+    private _onPauseChange(event: PauseChangeEvent) {
+        this._hold();
+    }
+
+    private _onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent) {
+        if (classifyChangeEvent(event, this.config) === 'user') {
+            this._check();
+        }
+    }
+
+    // start the hold timer of each rank reached, and stop the rest
+    private _hold() {
+        const now = new Date().valueOf();
+        const rankIndex = this._scoreKeeper.paused() ? -1 : this._scoreKeeper.rankIndex();
+        this._heldSince = this._heldSince.map((since, i) => i > rankIndex ? undefined : since || now);
+    }
+
+    private _check() {
+        const state = _loadState(this._memento);
+        const editor = vscode.window.activeTextEditor;
+        const document = editor && this.config.scoredSchemes.indexOf(editor.document.uri.scheme) >= 0 ?
+            editor.document : undefined;
+        const now = new Date().valueOf();
+
+        const unlocked = this._achievements.filter(achievement =>
+            state.unlocked[achievement.id] === undefined && this._isMet(achievement, state, document, now));
+        for (let achievement of unlocked) {
+            state.unlocked[achievement.id] = now;
+        }
+
+        // remember languages after checking, so the first time in a language counts as new
+        const languagesChanged = this._addRankLanguages(state, document);
+
+        if (unlocked.length > 0 || languagesChanged) {
+            this._memento.update(ACHIEVEMENTS_KEY, state);
+        }
+        for (let achievement of unlocked) {
+            this._onUnlock.fire({ achievement });
+        }
+    }
+
+    private _isMet(achievement: Achievement, state: AchievementState, document: vscode.TextDocument | undefined,
+            now: number): boolean {
+        if (achievement.minCombo !== undefined && this._scoreKeeper.combo() < achievement.minCombo) {
+            return false;
+        }
+        if (achievement.rank === undefined) {
+            return true;
+        }
+
+        const rankIndex = this.config.ranks.findIndex(rank => rank.text === achievement.rank);
+        if (rankIndex < 0 || this._scoreKeeper.rankIndex() < rankIndex) {
+            return false;
+        }
+        if (achievement.holdMs !== undefined) {
+            const since = this._heldSince[rankIndex];
+            if (since === undefined || now - since < achievement.holdMs) {
+                return false;
+            }
+        }
+        if (achievement.minLines !== undefined && (!document || document.lineCount < achievement.minLines)) {
+            return false;
+        }
+        if (achievement.newLanguage) {
+            const languages = state.rankLanguages[achievement.rank] || [];
+            if (!document || languages.length === 0 || languages.indexOf(document.languageId) >= 0) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    // returns true if a rank was reached in a language for the first time
+    private _addRankLanguages(state: AchievementState, document: vscode.TextDocument | undefined): boolean {
+        if (!document) {
+            return false;
+        }
+        let changed = false;
+        const language = document.languageId;
+        for (let i = 0; i <= this._scoreKeeper.rankIndex(); i++) {
+            const rankText = this.config.ranks[i].text;
+            const languages = state.rankLanguages[rankText] = state.rankLanguages[rankText] || [];
+            if (languages.indexOf(language) < 0) {
+                languages.push(language);
+                changed = true;
+            }
+        }
+        return changed;
+    }
+}
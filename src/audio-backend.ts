@@ -0,0 +1,300 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import { Disposable, Event, EventEmitter } from 'vscode';
+
+const vol = require('vol');
+
+/**
+ * Players used by the system volume fallback, which can't change their own volume.
+ */
+export const SYSTEM_VOLUME_PLAYERS = [
+    'mplayer',
+    'afplay',
+    'mpg123',
+    'mpg321',
+    'play',
+    'omxplayer',
+    'aplay',
+    'cmdmp3'
+];
+const player = require('play-sound')({players: SYSTEM_VOLUME_PLAYERS});
+
+/**
+ * How many times to try connecting to mpv while it starts up, and how long to wait between tries.
+ */
+const MPV_CONNECT_ATTEMPTS = 20;
+const MPV_CONNECT_RETRY_MS = 100;
+
+
+/**
+ * How music is played.
+ * 'mpv' and 'mplayer' control the volume of the music only.
+ * 'systemVolume' plays with any `play-sound` player and changes the system master volume instead.
+ * 'auto' picks mpv or mplayer, whichever is installed, and never falls back to the system volume.
+ */
+export type MusicBackend = 'auto' | 'mpv' | 'mplayer' | 'systemVolume';
+
+
+export interface AudioTrackEndEvent {
+    /**
+     * Why the track couldn't be played, if it stopped early.
+     */
+    error?: string;
+}
+
+
+/**
+ * An audio file whose volume can be changed while it plays.
+ */
+export interface AudioTrack extends Disposable {
+    /**
+     * Fires once when the track finishes or fails to play, but not when it is disposed.
+     * A looping track only ends if it fails.
+     */
+    readonly onDidEnd: Event<AudioTrackEndEvent>;
+
+    /**
+     * Set the volume from 0 to 1.
+     */
+    setVolume(volume: number): void;
+}
+
+
+/**
+ * Start playing an audio file with the given backend, at a volume from 0 to 1, muted by default.
+ * Players are launched at that volume, so short clips are heard from the start.
+ * Throws if no player for the backend is installed.
+ */
+export function playAudio(backend: MusicBackend, filepath: string, loop: boolean, volume = 0): AudioTrack {
+    if (backend === 'auto') {
+        backend = isInstalled('mpv') ? 'mpv' : 'mplayer';
+    }
+    if (backend === 'systemVolume') {
+        return new SystemVolumeTrack(filepath, loop, volume);
+    }
+    if (!isInstalled(backend)) {
+        throw new Error(`${backend} must be installed to play music`);
+    }
+    return backend === 'mpv' ? new MpvTrack(filepath, loop, volume) : new MplayerTrack(filepath, loop, volume);
+}
+
+
+/**
+ * Returns true if a command can be found on the PATH.
+ */
+export function isInstalled(command: string): boolean {
+    const dirs = (process.env.PATH || '').split(path.delimiter);
+    const extensions = process.platform === 'win32' ? (process.env.PATHEXT || '.EXE').split(';') : [''];
+    return dirs.some(dir => extensions.some(ext => fs.existsSync(path.join(dir, command + ext))));
+}
+
+
+/**
+ * Fires the end event at most once, and never after dispose.
+ */
+abstract class BaseAudioTrack implements AudioTrack {
+    private _onDidEnd = new EventEmitter<AudioTrackEndEvent>();
+    protected _disposed = false;
+    private _ended = false;
+
+    get onDidEnd() {
+        return this._onDidEnd.event;
+    }
+
+    public abstract setVolume(volume: number): void;
+
+    public dispose() {
+        this._disposed = true;
+        this._onDidEnd.dispose();
+    }
+
+    protected _end(error?: string) {
+        if (this._disposed || this._ended) {
+            return;
+        }
+        this._ended = true;
+        this._onDidEnd.fire({ error });
+    }
+
+    // end the track when a player process exits by itself
+    protected _onExit(player: string, code: number | null) {
+        this._end(code === 0 ? undefined : `${player} exited with code ${code}`);
+    }
+}
+
+
+/**
+ * Plays with mpv, setting the volume through its JSON IPC socket.
+ */
+class MpvTrack extends BaseAudioTrack {
+    private static _count = 0;
+
+    private _process: ChildProcess;
+    private _ipcPath: string;
+    private _socket?: net.Socket;
+    private _connectTimer?: NodeJS.Timer;
+
+    constructor(filepath: string, loop: boolean, private _volume: number) {
+        super();
+        const name = `style-meter-mpv-${process.pid}-${MpvTrack._count++}`;
+        this._ipcPath = process.platform === 'win32' ? `\\\\.\\pipe\\${name}` : path.join(os.tmpdir(), `${name}.sock`);
+
+        this._process = spawn('mpv', [
+            '--no-video',
+            '--no-terminal',
+            `--loop-file=${loop ? 'inf' : 'no'}`,
+            `--volume=${_toPercent(_volume)}`,
+            `--input-ipc-server=${this._ipcPath}`,
+            filepath,
+        ], { stdio: 'ignore' });
+
+        this._process.on('error', err => this._end(err.message));
+        this._process.on('exit', code => this._onExit('mpv', code));
+
+        this._connect(MPV_CONNECT_ATTEMPTS);
+    }
+
+    public setVolume(volume: number) {
+        this._volume = volume;
+        this._sendVolume();
+    }
+
+    public dispose() {
+        super.dispose();
+        if (this._connectTimer) {
+            clearTimeout(this._connectTimer);
+        }
+        if (this._socket) {
+            this._socket.destroy();
+        }
+        this._process.kill();
+    }
+
+    // mpv creates the socket some time after starting, so keep trying for a while
+    private _connect(attempts: number) {
+        const socket = net.connect(this._ipcPath);
+        socket.on('connect', () => {
+            this._socket = socket;
+            this._sendVolume();
+        });
+        socket.on('error', () => {
+            socket.destroy();
+            if (!this._disposed && !this._socket && attempts > 1) {
+                this._connectTimer = setTimeout(() => this._connect(attempts - 1), MPV_CONNECT_RETRY_MS);
+            }
+        });
+    }
+
+    private _sendVolume() {
+        if (this._socket && !this._disposed) {
+            const command = { command: ['set_property', 'volume', _toPercent(this._volume)] };
+            this._socket.write(JSON.stringify(command) + '\n');
+        }
+    }
+}
+
+
+/**
+ * Plays with mplayer in slave mode, setting the volume through its stdin.
+ */
+class MplayerTrack extends BaseAudioTrack {
+    private _process: ChildProcess;
+
+    constructor(filepath: string, loop: boolean, volume: number) {
+        super();
+        this._process = spawn('mplayer', [
+            '-slave',
+            '-really-quiet',
+            '-nolirc',
+            '-vo', 'null',
+            ...(loop ? ['-loop', '0'] : []),
+            '-volume', String(_toPercent(volume)),
+            filepath,
+        ], { stdio: ['pipe', 'ignore', 'ignore'] });
+
+        this._process.on('error', err => this._end(err.message));
+        this._process.on('exit', code => this._onExit('mplayer', code));
+
+        // writing to mplayer after it quit is already handled by the exit
+        this._process.stdin.on('error', () => undefined);
+    }
+
+    public setVolume(volume: number) {
+        if (this._process.stdin.writable) {
+            this._process.stdin.write(`volume ${_toPercent(volume)} 1\n`);
+        }
+    }
+
+    public dispose() {
+        super.dispose();
+        this._process.kill();
+    }
+}
+
+
+/**
+ * Plays with any `play-sound` player and changes the system master volume.
+ * The previous volume is only restored on dispose, so a crash leaves the system volume changed.
+ */
+class SystemVolumeTrack extends BaseAudioTrack {
+    // the process playing audio
+    private _audioProcess?: ChildProcess;
+
+    // the volume value from before this extension messed with it
+    private _prevVolume: number;
+
+    constructor(private readonly _filepath: string, private readonly _loop: boolean, volume: number) {
+        super();
+        if (!player.player) {
+            throw new Error('a play-sound compatible player must be installed to play music');
+        }
+
+        this._prevVolume = vol.get();
+        vol.set(volume);
+        this._play();
+    }
+
+    public setVolume(volume: number) {
+        vol.set(volume);
+    }
+
+    public dispose() {
+        super.dispose();
+
+        // stop music
+        if (this._audioProcess) {
+            this._audioProcess.kill();
+        }
+
+        // set volume back to previously set value
+        vol.set(this._prevVolume);
+    }
+
+    // play-sound players can't loop, so start a new process each time the last one finishes
+    private _play() {
+        this._audioProcess = player.play(this._filepath, (code: number | null) => this._onClose(code));
+    }
+
+    // play-sound passes the exit code if it isn't 0, and nothing on success or when killed
+    private _onClose(code: number | null) {
+        if (this._disposed) {
+            return;
+        }
+        if (code) {
+            this._onExit(player.player, code);
+        } else if (this._loop) {
+            this._play();
+        } else {
+            this._end();
+        }
+    }
+}
+
+
+// players take the volume as a whole percentage
+function _toPercent(volume: number): number {
+    return Math.round(volume * 100);
+}
@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from './config';
+import { ScoreKeeper } from './score-keeper';
+
+
+/**
+ * Pauses the score keeper while the window is unfocused or a debug session is running, if configured to.
+ */
+export class AutoPause {
+    // the ids of the running debug sessions
+    private _debugSessions = new Set<string>();
+
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(public readonly config: StyleMeterConfig, private readonly _scoreKeeper: ScoreKeeper) {
+        if (config.pauseWhenUnfocused) {
+            vscode.window.onDidChangeWindowState(this._onDidChangeWindowState, this, this._disposables);
+            this._onDidChangeWindowState(vscode.window.state);
+        }
+
+        if (config.pauseWhileDebugging) {
+            vscode.debug.onDidStartDebugSession(this._onDidStartDebugSession, this, this._disposables);
+            vscode.debug.onDidTerminateDebugSession(this._onDidTerminateDebugSession, this, this._disposables);
+            // of the sessions already running, only the active one can be found
+            if (vscode.debug.activeDebugSession) {
+                this._onDidStartDebugSession(vscode.debug.activeDebugSession);
+            }
+        }
+    }
+
+    public dispose(): void {
+        for (let d of this._disposables) {
+            d.dispose();
+        }
+        this._scoreKeeper.resume('unfocused');
+        this._scoreKeeper.resume('debugging');
+    }
+
+    private _onDidChangeWindowState(state: vscode.WindowState) {
+        if (state.focused) {
+            this._scoreKeeper.resume('unfocused');
+        } else {
+            this._scoreKeeper.pause('unfocused');
+        }
+    }
+
+    private _onDidStartDebugSession(session: vscode.DebugSession) {
+        this._debugSessions.add(session.id);
+        this._scoreKeeper.pause('debugging');
+    }
+
+    private _onDidTerminateDebugSession(session: vscode.DebugSession) {
+        this._debugSessions.delete(session.id);
+        if (this._debugSessions.size === 0) {
+            this._scoreKeeper.resume('debugging');
+        }
+    }
+}
@@ -0,0 +1,29 @@
+import * as vscode from 'vscode';
+import { decorationStats } from './rank-decorator';
+
+
+/**
+ * How long the decoration benchmark counts for.
+ */
+const BENCHMARK_DURATION_MS = 60 * 1000;
+
+
+/**
+ * Count the decoration types created and disposed, and the decorations drawn,
+ * over a minute of typing, and show them per minute.
+ */
+export async function benchmarkDecorations() {
+    const start = Object.assign({}, decorationStats);
+
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Style Meter: keep typing, counting decoration work for a minute',
+    }, () => new Promise(resolve => setTimeout(resolve, BENCHMARK_DURATION_MS)));
+
+    const perMinute = (count: number) => Math.round(count * 60 * 1000 / BENCHMARK_DURATION_MS);
+    const created = perMinute(decorationStats.created - start.created);
+    const disposed = perMinute(decorationStats.disposed - start.disposed);
+    const drawn = perMinute(decorationStats.drawn - start.drawn);
+    vscode.window.showInformationMessage(`Style Meter decorations per minute: ${created} created, `
+        + `${disposed} disposed, ${drawn} drawn.`);
+}
@@ -0,0 +1,212 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from './config';
+import { RankChangeEvent, ScoreKeeper } from './score-keeper';
+import { CommitRecord } from './session';
+import { GitApi, Repository, getGitApi } from './git';
+
+
+/**
+ * The trailer added to commit messages by the stamp rank trailer command.
+ */
+const RANK_TRAILER = 'Style-Rank';
+
+/**
+ * A new HEAD commit authored longer ago than this was pulled or cherry-picked, not just committed.
+ */
+const MAX_COMMIT_AGE_MS = 300000;
+
+/**
+ * The most changed files to count the lines of, so a huge commit doesn't run git for every file.
+ */
+const MAX_DIFF_FILES = 50;
+
+
+/**
+ * A line like `Signed-off-by: Name <email>`.
+ */
+const TRAILER_LINE = /^[\w-]+: /;
+
+/**
+ * The rank trailer at the end of a commit message, with the line breaks added before it.
+ */
+const RANK_TRAILER_END = new RegExp(`\\n\\n?${RANK_TRAILER}: [^\\n]*$`);
+
+
+export interface CommitEvent {
+    commit: CommitRecord;
+}
+
+
+/**
+ * Watches git repositories through the built-in git extension and awards style for each commit,
+ * half the commit bonus for any commit and the rest scaled by the lines changed, up to a cap.
+ * Remembers the peak rank reached while each commit was authored, and can stamp it on the commit message.
+ */
+export class CommitTracker {
+    public _onCommit = new vscode.EventEmitter<CommitEvent>();
+
+    private _git?: GitApi;
+
+    // the last branch and commit of each repository's HEAD
+    private _heads = new Map<Repository, { name?: string, commit?: string }>();
+
+    // the peak rank since the last commit
+    private _peakRankIndex: number;
+
+    private _disposed = false;
+
+    private _disposables: vscode.Disposable[] = [
+        this._onCommit,
+    ];
+
+    constructor(public readonly config: StyleMeterConfig, private readonly _scoreKeeper: ScoreKeeper) {
+        this._peakRankIndex = this._scoreKeeper.rankIndex();
+        this._scoreKeeper.onRankChange(this._onRankChange, this, this._disposables);
+
+        // without the git extension there are no commits to score, the same as when git is disabled
+        getGitApi().then(git => {
+            if (git && !this._disposed) {
+                this._git = git;
+                git.repositories.forEach(repository => this._watch(repository));
+                git.onDidOpenRepository(this._watch, this, this._disposables);
+            }
+        }, () => undefined);
+    }
+
+    get onCommit() {
+        return this._onCommit.event;
+    }
+
+    /**
+     * Add the peak rank since the last commit as the last trailer of every commit message being written,
+     * replacing one added before. Messages are only changed when asked, so typing in them is never disturbed.
+     *
+     * @returns the number of messages stamped
+     */
+    public stampTrailers(): number {
+        if (!this._git || this._peakRankIndex < 0) {
+            return 0;
+        }
+        const trailer = `${RANK_TRAILER}: ${this.config.ranks[this._peakRankIndex].text}`;
+        let stamped = 0;
+        for (let repository of this._git.repositories) {
+            const message = _removeTrailer(repository.inputBox.value);
+            if (message.trim().length > 0) {
+                repository.inputBox.value = _addTrailer(message, trailer);
+                stamped++;
+            }
+        }
+        return stamped;
+    }
+
+    public dispose(): void {
+        if (this._disposed) {
+            return;
+        }
+        this._disposed = true;
+        for (let d of this._disposables) {
+            d.dispose();
+        }
+    }
+
+    private _watch(repository: Repository) {
+        this._heads.set(repository, this._getHead(repository));
+        repository.state.onDidChange(() => this._onDidChangeState(repository), this, this._disposables);
+    }
+
+    private _getHead(repository: Repository) {
+        const head = repository.state.HEAD;
+        return { name: head && head.name, commit: head && head.commit };
+    }
+
+    private _onRankChange(event: RankChangeEvent) {
+        if (event.rankIndex > this._peakRankIndex) {
+            this._peakRankIndex = event.rankIndex;
+        }
+    }
+
+    private _onDidChangeState(repository: Repository) {
+        const prev = this._heads.get(repository);
+        const next = this._getHead(repository);
+        this._heads.set(repository, next);
+
+        // a commit moves HEAD forward on the same branch
+        if (prev && prev.commit && next.commit && prev.commit !== next.commit && prev.name === next.name) {
+            // a commit that git can't describe just goes unscored
+            this._onHeadMoved(repository, prev.commit, next.commit).catch(() => undefined);
+        }
+    }
+
+    private async _onHeadMoved(repository: Repository, from: string, to: string) {
+        // skip checkouts, resets and pulls, where HEAD moves to something that wasn't just committed on top
+        const commit = repository.getCommit ? await repository.getCommit(to) : undefined;
+        if (commit && commit.parents.indexOf(from) < 0) {
+            return;
+        }
+        if (commit && commit.authorDate && new Date().valueOf() - commit.authorDate.valueOf() > MAX_COMMIT_AGE_MS) {
+            return;
+        }
+
+        const lines = await this._countChangedLines(repository, from, to);
+        if (this._disposed) {
+            return;
+        }
+
+        const prevScore = this._scoreKeeper.score();
+        const progress = Math.min(lines / this.config.commitBonusMaxLines, 1);
+        if (this.config.commitBonus > 0) {
+            this._scoreKeeper.onAward({ points: this.config.commitBonus * (0.5 + 0.5 * progress), reason: 'commit' });
+        }
+
+        const rankIndex = this._peakRankIndex;
+        this._peakRankIndex = this._scoreKeeper.rankIndex();
+
+        if (this.config.commitRankStamp !== 'off') {
+            this._onCommit.fire({
+                commit: {
+                    time: new Date().valueOf(),
+                    repository: path.basename(repository.rootUri.fsPath),
+                    hash: to,
+                    message: commit ? commit.message.split('\n')[0] : '',
+                    rankIndex,
+                    lines,
+                    style: this._scoreKeeper.score() - prevScore,
+                },
+            });
+        }
+    }
+
+    // lines added and removed between two commits, counted up to the bonus cap
+    private async _countChangedLines(repository: Repository, from: string, to: string): Promise<number> {
+        if (!repository.diffBetween) {
+            return 0;
+        }
+        const changes = await repository.diffBetween(from, to);
+        let lines = 0;
+        for (let change of changes.slice(0, MAX_DIFF_FILES)) {
+            const patch = await repository.diffBetween(from, to, change.uri.fsPath);
+            lines += patch.split('\n').filter(line =>
+                (line[0] === '+' && !line.startsWith('+++')) || (line[0] === '-' && !line.startsWith('---'))).length;
+            if (lines >= this.config.commitBonusMaxLines) {
+                return this.config.commitBonusMaxLines;
+            }
+        }
+        return lines;
+    }
+}
+
+
+// only take off what _addTrailer added, leaving whatever was typed as it was
+function _removeTrailer(message: string): string {
+    return message.replace(RANK_TRAILER_END, '');
+}
+
+
+// git only reads trailers from the last paragraph, so join one that is already all trailers
+function _addTrailer(message: string, trailer: string): string {
+    const paragraphs = message.split(/\n\s*\n/);
+    const last = paragraphs[paragraphs.length - 1].split('\n');
+    const isTrailers = paragraphs.length > 1 && last.every(line => TRAILER_LINE.test(line));
+    return message + (isTrailers ? '\n' : '\n\n') + trailer;
+}
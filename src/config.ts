@@ -1,4 +1,11 @@
 import { Rank } from './rank';
+import { DecayCurve } from './decay';
+import { Difficulty } from './difficulty';
+import { MusicBackend } from './audio-backend';
+import { MusicLayer } from './music-player';
+import { PlaylistMode } from './playlist';
+import { Achievement } from './achievements';
+import { TaskReward } from './sources/task-source';
 
 
 export interface StyleMeterConfig {
@@ -24,17 +31,293 @@ export interface StyleMeterConfig {
      */
     degradationFactor: number;
 
+    /**
+     * The named difficulty preset that scoring settings start from.
+     */
+    difficulty: Difficulty;
+
+    /**
+     * The max style point reward for typing per change event.
+     * This prevents copy-paste from being overpowered.
+     */
+    maxChangeReward: number;
+
+    /**
+     * How many times more difficult it is to gain points at the highest rank than without any rank.
+     */
+    difficultyFactor: number;
+
+    /* Decay config */
+
+    /**
+     * The period at which style degradation takes place.
+     * This has no real effect on difficulty.
+     * Lower values update the meter more often but worsen performance.
+     */
+    degradePeriodMs: number;
+
+    /**
+     * How style is lost while inactive.
+     */
+    decayCurve: DecayCurve;
+
+    /**
+     * The rate of style degradation in points/s^2 for the quadratic curve.
+     */
+    decayAccPps2: number;
+
+    /**
+     * The rate of style degradation in points/s for the linear curve, and after the grace period.
+     */
+    decayRatePps: number;
+
+    /**
+     * How long it takes to lose half of the score for the exponential curve.
+     */
+    decayHalfLifeMs: number;
+
+    /**
+     * How long style is kept after the last gain for the grace period curve.
+     */
+    decayGracePeriodMs: number;
+
+    /**
+     * A multiplier on the style points from each scoring source, by source name.
+     * A weight of 0 turns the source off.
+     */
+    sourceWeights: { [name: string]: number };
+
+    /* Change filter config */
+
+    /**
+     * URI schemes of documents where edits are scored. Edits to output, logs, git and the like are ignored.
+     */
+    scoredSchemes: string[];
+
+    /**
+     * Don't score undo and redo. Only works on versions of VSCode that report why a document changed.
+     */
+    ignoreUndoRedo: boolean;
+
+    /**
+     * Don't score edits to many places at once, like formatting.
+     */
+    ignoreBulkEdits: boolean;
+
+    /**
+     * A single edit replacing at least this many characters counts as a bulk edit.
+     */
+    bulkEditMinLength: number;
+
+    /**
+     * How many times the same character can be typed in a row before it is worth less.
+     */
+    repeatThreshold: number;
+
+    /**
+     * The multiplier applied to the reward for each repeated character past the threshold.
+     */
+    repeatDecay: number;
+
+    /**
+     * Style points lost for each new error, and gained for each error fixed.
+     */
+    diagnosticErrorWeight: number;
+
+    /**
+     * Style points lost for each new warning, and gained for each warning fixed.
+     */
+    diagnosticWarningWeight: number;
+
+    /**
+     * How long diagnostics must stay unchanged before they are scored.
+     */
+    diagnosticDebounceMs: number;
+
+    /**
+     * Drop a whole rank when new errors are introduced.
+     */
+    diagnosticDropRank: boolean;
+
+    /**
+     * Style for tasks and debug sessions that pass or fail, by task or launch configuration name,
+     * or by group: 'build', 'test', 'clean', 'rebuild', 'debug' or '*' for any.
+     */
+    taskRewards: { [nameOrGroup: string]: TaskReward };
+
+    /**
+     * The longest pause between style gains that keeps a combo going.
+     */
+    comboWindowMs: number;
+
+    /**
+     * How much each hit in a combo adds to the style multiplier.
+     */
+    comboMultiplierStep: number;
+
+    /**
+     * The highest style multiplier a combo can reach.
+     */
+    maxComboMultiplier: number;
+
+    /**
+     * Freeze scoring and decay while the VSCode window is not focused.
+     */
+    pauseWhenUnfocused: boolean;
+
+    /**
+     * Freeze scoring and decay while a debug session is running.
+     */
+    pauseWhileDebugging: boolean;
+
     /* Display config */
 
+    /**
+     * Where to show the style meter.
+     */
+    renderer: 'decoration' | 'statusBar' | 'both';
+
+    /**
+     * Also show the style meter in an animated webview in its own editor column.
+     */
+    webviewHud: boolean;
+
+    /**
+     * Which editors show the decoration meter: the focused one, all visible ones, or the ones in a fixed group.
+     */
+    hudEditors: 'active' | 'allVisible' | 'group';
+
+    /**
+     * The editor group (1 is the leftmost) to show the decoration meter in when `hudEditors` is 'group'.
+     */
+    hudGroup: number;
+
     rankLetterFontSizePx: number;
     rankTextFontSizePx: number;
     lineHeightPx: number;
     rankFont: string;
 
+    /* Cursor effects config */
+
+    /**
+     * Float the style gained up from the cursor.
+     */
+    effectFloatingNumbers: boolean;
+
+    /**
+     * Burst out from the cursor in the rank's color on reaching a higher rank.
+     */
+    effectRankUpBurst: boolean;
+
+    /**
+     * Shake the line being typed on at the top ranks.
+     */
+    effectShake: boolean;
+
+    /**
+     * How many of the top ranks shake the line.
+     */
+    effectShakeRanks: number;
+
+    /**
+     * The most intense cursor effects can get, from 0 to 1. Effects get more intense at higher ranks.
+     * 0 turns every cursor effect off.
+     */
+    effectsMaxIntensity: number;
+
     /* Music config */
 
+    /**
+     * A music file, a directory of them, a glob or an M3U playlist.
+     */
     musicFilepath?: string;
     maxVolume: number;
+
+    /**
+     * How the next track is picked when the music filepath has several.
+     */
+    musicPlaylistMode: PlaylistMode;
+
+    /**
+     * How music is played. Only 'systemVolume' changes the system master volume.
+     */
+    musicBackend: MusicBackend;
+
+    /**
+     * Tracks or stems that play at different ranks. Overrides `musicFilepath` if not empty.
+     */
+    musicLayers: MusicLayer[];
+
+    /**
+     * How long music layers take to fade in and out when the rank changes.
+     */
+    musicFadeMs: number;
+
+    /* Sound effects config */
+
+    /**
+     * Audio filepaths of clips to play on reaching a rank, by rank text.
+     */
+    rankUpSounds: { [rankText: string]: string };
+
+    /**
+     * An audio filepath of a clip to play when the rank drops.
+     */
+    rankDownSound?: string;
+
+    /**
+     * An audio filepath of a clip to play when a long combo breaks.
+     */
+    comboBreakSound?: string;
+
+    /**
+     * The volume of sound effects from 0 to 1, separate from the music.
+     */
+    soundEffectsVolume: number;
+
+    /**
+     * The shortest time between sound effects, so a rank going up and down quickly doesn't spam them.
+     */
+    soundEffectsCooldownMs: number;
+
+    /* Achievements config */
+
+    /**
+     * Achievements to add to the built in ones, or to replace built in ones with the same id.
+     */
+    achievements: Achievement[];
+
+    /* Git config */
+
+    /**
+     * Style points awarded for a commit, half for any commit and the rest scaled by the lines changed.
+     * 0 turns commit bonuses off.
+     */
+    commitBonus: number;
+
+    /**
+     * How many lines a commit must change to earn the whole commit bonus.
+     */
+    commitBonusMaxLines: number;
+
+    /**
+     * Where to record the peak rank reached while each commit was authored.
+     * 'history' records it with the session, and 'trailer' also offers adding a `Style-Rank` trailer to the commit
+     * message from the source control view.
+     */
+    commitRankStamp: 'off' | 'history' | 'trailer';
+
+    /* Export config */
+
+    /**
+     * A folder to write a JSON and CSV summary of each session to when it ends.
+     */
+    exportFolder?: string;
+
+    /**
+     * An HTTP URL to post the JSON summary of each session to when it ends.
+     */
+    exportUrl?: string;
 }
 
 export const defaultStyleMeterConfig: StyleMeterConfig = {
@@ -114,11 +397,73 @@ export const defaultStyleMeterConfig: StyleMeterConfig = {
     maxScore: 80,
     gainFactor: 1,
     degradationFactor: 1,
+    difficulty: 'Devil Hunter',
+    maxChangeReward: 5,
+    difficultyFactor: 4,
+    degradePeriodMs: 500,
+    decayCurve: 'quadratic',
+    decayAccPps2: 2,
+    decayRatePps: 2,
+    decayHalfLifeMs: 10000,
+    decayGracePeriodMs: 3000,
+    sourceWeights: {
+        typing: 1,
+        save: 1,
+        completion: 1,
+        refactor: 1,
+        multiCursor: 1,
+        navigation: 1,
+        diagnostics: 1,
+        tasks: 1,
+    },
+    scoredSchemes: ['file', 'untitled'],
+    ignoreUndoRedo: true,
+    ignoreBulkEdits: true,
+    bulkEditMinLength: 1000,
+    repeatThreshold: 3,
+    repeatDecay: 0.5,
+    diagnosticErrorWeight: 3,
+    diagnosticWarningWeight: 1,
+    diagnosticDebounceMs: 1500,
+    diagnosticDropRank: false,
+    taskRewards: {
+        build: { pass: 3, fail: 5 },
+        test: { pass: 10, fail: 10 },
+    },
+    comboWindowMs: 1500,
+    comboMultiplierStep: 0.02,
+    maxComboMultiplier: 2,
 
+    pauseWhenUnfocused: false,
+    pauseWhileDebugging: false,
+    renderer: 'decoration',
+    webviewHud: false,
+    hudEditors: 'active',
+    hudGroup: 1,
     rankLetterFontSizePx: 60,
     rankTextFontSizePx: 40,
     lineHeightPx: 20,
     rankFont: 'georgia',
 
+    effectFloatingNumbers: true,
+    effectRankUpBurst: true,
+    effectShake: false,
+    effectShakeRanks: 2,
+    effectsMaxIntensity: 1,
+
     maxVolume: 0.15,
+    musicPlaylistMode: 'sequential',
+    musicBackend: 'auto',
+    musicLayers: [],
+    musicFadeMs: 1000,
+
+    rankUpSounds: {},
+    soundEffectsVolume: 0.5,
+    soundEffectsCooldownMs: 2000,
+
+    achievements: [],
+
+    commitBonus: 10,
+    commitBonusMaxLines: 200,
+    commitRankStamp: 'history',
 };
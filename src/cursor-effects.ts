@@ -0,0 +1,367 @@
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from './config';
+import { RankChangeEvent, ScoreChangeEvent, ScoreKeeper } from './score-keeper';
+import { RankColor, getCssColor } from './rank';
+import { StyleRenderer } from './renderer';
+
+
+/**
+ * The time between animation frames while any effect is showing.
+ */
+const FRAME_MS = 40;
+
+/**
+ * How long a floating number takes to rise and fade away.
+ */
+const FLOAT_MS = 700;
+
+/**
+ * Gains closer together than this on the same line add up in one floating number, so typing doesn't make a pile.
+ */
+const FLOAT_MERGE_MS = 150;
+
+/**
+ * The most floating numbers showing at once. The oldest go first.
+ */
+const MAX_FLOATERS = 8;
+
+/**
+ * How long the rank-up burst takes to spread out and fade away.
+ */
+const BURST_MS = 400;
+
+/**
+ * How long the line shakes after each gain.
+ */
+const SHAKE_MS = 200;
+
+/**
+ * The font size, rise, burst size and shake of effects at no intensity and at full intensity.
+ */
+const FLOAT_FONT_SIZE_PX: [number, number] = [10, 18];
+const FLOAT_RISE_PX: [number, number] = [15, 40];
+const BURST_SIZE_PX: [number, number] = [30, 120];
+const SHAKE_PX: [number, number] = [0.5, 2];
+
+/**
+ * The direction of the shake in each frame, as a fraction of the shake size.
+ */
+const SHAKE_PATTERN: [number, number][] = [[1, 0], [-1, 0.5], [0.5, -1], [-0.5, 0]];
+
+/**
+ * The number of steps an effect's progress is rounded to.
+ * VSCode makes a CSS rule for each different style, so this keeps the number of rules down.
+ */
+const PROGRESS_STEPS = 10;
+
+
+/**
+ * Returns true if any cursor effect is turned on.
+ */
+export function hasCursorEffects(config: StyleMeterConfig): boolean {
+    return config.effectsMaxIntensity > 0 &&
+        (config.effectFloatingNumbers || config.effectRankUpBurst || config.effectShake);
+}
+
+
+interface Effect {
+    editor: vscode.TextEditor;
+    position: vscode.Position;
+    start: number;      // epoch ms the effect started
+    color: RankColor;
+    intensity: number;  // from 0 to 1
+}
+
+
+interface Floater extends Effect {
+    points: number;
+    offsetPx: number;   // horizontal jitter, so numbers in a row don't stack
+}
+
+
+/**
+ * Draws short-lived effects at the cursor: a number floating up for each gain, a burst in the rank's color on
+ * reaching a higher rank and a shake of the line being typed on at the top ranks.
+ * Effects are stronger at higher ranks, up to the intensity cap.
+ *
+ * Decorations can't be animated with CSS, so each effect is redrawn a frame at a time while it shows.
+ * Floating numbers and bursts have one decoration type each, with the style of each frame set per range.
+ */
+export class CursorEffects implements StyleRenderer {
+    private _floaters: Floater[] = [];
+    private _bursts: Effect[] = [];
+    private _shake?: Effect;
+
+    private _floaterDecoration: vscode.TextEditorDecorationType;
+    private _burstDecoration: vscode.TextEditorDecorationType;
+    private _shakeDecorations = new Map<string, vscode.TextEditorDecorationType>();
+
+    // the shake drawn last frame
+    private _drawnShake?: { editor: vscode.TextEditor, decoration: vscode.TextEditorDecorationType };
+
+    private _score: number;
+    private _rankIndex: number;
+
+    // editors drawn in last frame, which need clearing once their effects are gone
+    private _drawnEditors: vscode.TextEditor[] = [];
+
+    private _frameTimer?: NodeJS.Timer;
+
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(public readonly config: StyleMeterConfig, private readonly _scoreKeeper: ScoreKeeper) {
+        this._score = this._scoreKeeper.score();
+        this._rankIndex = this._scoreKeeper.rankIndex();
+        this._scoreKeeper.onScoreChange(this._onScoreChange, this, this._disposables);
+        this._scoreKeeper.onRankChange(this._onRankChange, this, this._disposables);
+
+        const rangeBehavior = vscode.DecorationRangeBehavior.ClosedClosed;
+        this._floaterDecoration = vscode.window.createTextEditorDecorationType({ rangeBehavior });
+        this._burstDecoration = vscode.window.createTextEditorDecorationType({ rangeBehavior });
+        this._disposables.push(this._floaterDecoration, this._burstDecoration);
+    }
+
+    public dispose(): void {
+        if (this._frameTimer) {
+            clearTimeout(this._frameTimer);
+        }
+
+        // disposing the types also takes them off every editor
+        for (let d of this._disposables) {
+            d.dispose();
+        }
+        this._shakeDecorations.forEach(d => d.dispose());
+    }
+
+    private _onScoreChange(event: ScoreChangeEvent) {
+        const gain = event.score - this._score;
+        this._score = event.score;
+
+        // decay and penalties lose points, which aren't worth celebrating
+        const effect = this._getEffect(event.rankIndex);
+        if (gain <= 0 || !effect) {
+            return;
+        }
+
+        if (this.config.effectFloatingNumbers) {
+            this._addFloater(effect, gain);
+        }
+        const topRanks = this.config.ranks.length - this.config.effectShakeRanks;
+        if (this.config.effectShake && event.rankIndex >= topRanks) {
+            this._shake = effect;
+        }
+        this._requestFrame();
+    }
+
+    private _onRankChange(event: RankChangeEvent) {
+        const prevRankIndex = this._rankIndex;
+        this._rankIndex = event.rankIndex;
+
+        const effect = this._getEffect(event.rankIndex);
+        if (this.config.effectRankUpBurst && event.rankIndex > prevRankIndex && effect) {
+            this._bursts.push(effect);
+            this._requestFrame();
+        }
+    }
+
+    // an effect at the cursor of the active editor, if there is one to draw in
+    private _getEffect(rankIndex: number): Effect | undefined {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || this.config.scoredSchemes.indexOf(editor.document.uri.scheme) < 0) {
+            return undefined;
+        }
+        const ranks = this.config.ranks;
+        const intensity = Math.min((rankIndex + 2) / (ranks.length + 1), this.config.effectsMaxIntensity);
+        return {
+            editor,
+            position: editor.selection.active,
+            start: new Date().valueOf(),
+            color: ranks[Math.max(rankIndex, 0)].color,
+            intensity,
+        };
+    }
+
+    private _addFloater(effect: Effect, points: number) {
+        const last = this._floaters[this._floaters.length - 1];
+        if (last && last.editor === effect.editor && last.position.line === effect.position.line &&
+                effect.start - last.start < FLOAT_MERGE_MS) {
+            last.points += points;
+            last.position = effect.position;
+            last.color = effect.color;
+            last.intensity = effect.intensity;
+            return;
+        }
+
+        const offsetPx = Math.round((Math.random() - 0.5) * 20);
+        this._floaters.push({ ...effect, points, offsetPx });
+        if (this._floaters.length > MAX_FLOATERS) {
+            this._floaters.shift();
+        }
+    }
+
+    private _requestFrame() {
+        if (!this._frameTimer) {
+            this._frameTimer = setTimeout(() => {
+                this._frameTimer = undefined;
+                this._drawFrame();
+            }, 0);
+        }
+    }
+
+    private _drawFrame() {
+        const now = new Date().valueOf();
+        this._floaters = this._floaters.filter(f => now - f.start < FLOAT_MS && !_isClosed(f.editor));
+        this._bursts = this._bursts.filter(b => now - b.start < BURST_MS && !_isClosed(b.editor));
+        if (this._shake && (now - this._shake.start >= SHAKE_MS || _isClosed(this._shake.editor))) {
+            this._shake = undefined;
+        }
+
+        const floaters = new Map<vscode.TextEditor, vscode.DecorationOptions[]>();
+        const bursts = new Map<vscode.TextEditor, vscode.DecorationOptions[]>();
+        for (let floater of this._floaters) {
+            _push(floaters, floater.editor, this._getFloaterOptions(floater, now));
+        }
+        for (let burst of this._bursts) {
+            _push(bursts, burst.editor, this._getBurstOptions(burst, now));
+        }
+
+        const editors = this._drawnEditors.filter(editor => !_isClosed(editor));
+        for (let map of [floaters, bursts]) {
+            map.forEach((options, editor) => {
+                if (editors.indexOf(editor) < 0) {
+                    editors.push(editor);
+                }
+            });
+        }
+        for (let editor of editors) {
+            editor.setDecorations(this._floaterDecoration, floaters.get(editor) || []);
+            editor.setDecorations(this._burstDecoration, bursts.get(editor) || []);
+        }
+        this._drawnEditors = editors.filter(editor => floaters.has(editor) || bursts.has(editor));
+
+        this._drawShake(now);
+
+        if (this._drawnEditors.length > 0 || this._drawnShake) {
+            this._frameTimer = setTimeout(() => {
+                this._frameTimer = undefined;
+                this._drawFrame();
+            }, FRAME_MS);
+        }
+    }
+
+    private _drawShake(now: number) {
+        const prev = this._drawnShake;
+        const shake = this._shake;
+        const next = shake && {
+            editor: shake.editor,
+            decoration: this._getShakeDecoration(shake, now),
+            range: shake.editor.document.lineAt(Math.min(shake.position.line, shake.editor.document.lineCount - 1))
+                .range,
+        };
+        if (prev && !_isClosed(prev.editor) && (!next || prev.editor !== next.editor ||
+                prev.decoration !== next.decoration)) {
+            prev.editor.setDecorations(prev.decoration, []);
+        }
+        if (next) {
+            next.editor.setDecorations(next.decoration, [next.range]);
+        }
+        this._drawnShake = next;
+    }
+
+    private _getFloaterOptions(floater: Floater, now: number): vscode.DecorationOptions {
+        const progress = _getProgress(now - floater.start, FLOAT_MS);
+        const fontSize = Math.round(_lerp(FLOAT_FONT_SIZE_PX, floater.intensity));
+        const rise = Math.round(_lerp(FLOAT_RISE_PX, floater.intensity) * progress);
+        return {
+            range: new vscode.Range(floater.position, floater.position),
+            renderOptions: {
+                after: {
+                    contentText: `+${Math.max(Math.round(floater.points), 1)}`,
+                    color: getCssColor(floater.color),
+                    textDecoration: `none;
+                        position: absolute;
+                        margin-left: ${floater.offsetPx}px;
+                        top: ${-rise}px;
+                        opacity: ${1 - progress};
+                        font-size: ${fontSize}px;
+                        font-style: italic;
+                        font-weight: bold;
+                        text-shadow: 1px 1px 4px;
+                        white-space: nowrap;
+                        pointer-events: none;
+                        z-index: 1;`,
+                },
+            },
+        };
+    }
+
+    private _getBurstOptions(burst: Effect, now: number): vscode.DecorationOptions {
+        const progress = _getProgress(now - burst.start, BURST_MS);
+        const size = Math.round(_lerp(BURST_SIZE_PX, burst.intensity) * (0.2 + 0.8 * progress));
+        const top = this.config.lineHeightPx / 2 - size / 2;
+        return {
+            range: new vscode.Range(burst.position, burst.position),
+            renderOptions: {
+                after: {
+                    contentText: '',
+                    borderColor: getCssColor(burst.color),
+                    textDecoration: `none;
+                        position: absolute;
+                        box-sizing: border-box;
+                        width: ${size}px;
+                        height: ${size}px;
+                        margin-left: ${-size / 2}px;
+                        top: ${top}px;
+                        border: ${Math.max(Math.round(4 * (1 - progress)), 1)}px solid;
+                        border-radius: 50%;
+                        opacity: ${1 - progress};
+                        pointer-events: none;
+                        z-index: 1;`,
+                },
+            },
+        };
+    }
+
+    // the line's own text can't be styled per range, so each shake offset gets its own type
+    private _getShakeDecoration(shake: Effect, now: number): vscode.TextEditorDecorationType {
+        const frame = Math.floor((now - shake.start) / FRAME_MS) % SHAKE_PATTERN.length;
+        const size = _lerp(SHAKE_PX, shake.intensity);
+        const [x, y] = SHAKE_PATTERN[frame].map(d => Math.round(d * size * 2) / 2);
+        const key = `${x},${y}`;
+        let decoration = this._shakeDecorations.get(key);
+        if (!decoration) {
+            decoration = vscode.window.createTextEditorDecorationType({
+                textDecoration: `none; position: relative; left: ${x}px; top: ${y}px;`,
+                rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+            });
+            this._shakeDecorations.set(key, decoration);
+        }
+        return decoration;
+    }
+}
+
+
+function _isClosed(editor: vscode.TextEditor): boolean {
+    return vscode.window.visibleTextEditors.indexOf(editor) < 0;
+}
+
+
+function _push<K, V>(map: Map<K, V[]>, key: K, value: V) {
+    const values = map.get(key);
+    if (values) {
+        values.push(value);
+    } else {
+        map.set(key, [value]);
+    }
+}
+
+
+function _getProgress(elapsedMs: number, durationMs: number): number {
+    return Math.round(Math.min(elapsedMs / durationMs, 1) * PROGRESS_STEPS) / PROGRESS_STEPS;
+}
+
+
+// interpolate between the values at no and full intensity
+function _lerp([min, max]: [number, number], intensity: number): number {
+    return min + (max - min) * intensity;
+}
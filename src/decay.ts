@@ -0,0 +1,67 @@
+import { StyleMeterConfig } from './config';
+
+
+/**
+ * Inactivity longer than this doesn't make decay any faster.
+ */
+const MAX_INACTIVE_MS = 100000;
+
+
+export type DecayCurve = 'quadratic' | 'linear' | 'exponential' | 'gracePeriod';
+
+
+/**
+ * Get the style points lost in one degradation period.
+ *
+ * @param config the style meter config, with the decay parameters
+ * @param inactiveMs how long it has been since style points went up
+ * @param score the current score
+ */
+export type DecayFunction = (config: StyleMeterConfig, inactiveMs: number, score: number) => number;
+
+
+export const DECAY_CURVES: { [name in DecayCurve]: DecayFunction } = {
+    /**
+     * Lose style faster the longer you're inactive.
+     */
+    quadratic: (config, inactiveMs) => {
+        const acc_ppms2 = config.decayAccPps2 / 1e6;
+        return inactiveMs * config.degradePeriodMs * acc_ppms2;
+    },
+
+    /**
+     * Lose style at a steady rate.
+     */
+    linear: (config) => {
+        return config.decayRatePps * config.degradePeriodMs / 1000;
+    },
+
+    /**
+     * Lose the same fraction of your style over time, so the score halves every half-life.
+     */
+    exponential: (config, inactiveMs, score) => {
+        return score * (1 - Math.pow(0.5, config.degradePeriodMs / config.decayHalfLifeMs));
+    },
+
+    /**
+     * Keep your style for a grace period, then lose it at a steady rate.
+     */
+    gracePeriod: (config, inactiveMs) => {
+        if (inactiveMs < config.decayGracePeriodMs) {
+            return 0;
+        }
+        return DECAY_CURVES.linear(config, inactiveMs, 0);
+    },
+};
+
+
+/**
+ * Get the style points lost in one degradation period, using the configured decay curve.
+ */
+export function getDecayPenalty(config: StyleMeterConfig, inactiveMs: number, score: number): number {
+    if (inactiveMs > MAX_INACTIVE_MS) {
+        inactiveMs = MAX_INACTIVE_MS;
+    }
+    const curve = DECAY_CURVES[config.decayCurve] || DECAY_CURVES.quadratic;
+    return curve(config, inactiveMs, score) * config.degradationFactor;
+}
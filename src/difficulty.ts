@@ -0,0 +1,36 @@
+import { StyleMeterConfig } from './config';
+
+
+export type Difficulty = 'Human' | 'Devil Hunter' | 'Son of Sparda' | 'Dante Must Die';
+
+
+/**
+ * Named sets of scoring config. Each preset is applied over the defaults,
+ * and any scoring setting the user sets overrides the preset.
+ */
+export const DIFFICULTY_PRESETS: { [name in Difficulty]: Partial<StyleMeterConfig> } = {
+    'Human': {
+        gainFactor: 1.5,
+        decayCurve: 'gracePeriod',
+        decayGracePeriodMs: 5000,
+        decayRatePps: 2,
+        difficultyFactor: 2,
+    },
+
+    // the defaults
+    'Devil Hunter': {
+    },
+
+    'Son of Sparda': {
+        degradationFactor: 1.5,
+        difficultyFactor: 5,
+    },
+
+    'Dante Must Die': {
+        gainFactor: 0.8,
+        decayCurve: 'exponential',
+        decayHalfLifeMs: 5000,
+        maxChangeReward: 4,
+        difficultyFactor: 6,
+    },
+};
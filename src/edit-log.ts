@@ -0,0 +1,159 @@
+import { StyleMeterConfig } from './config';
+import { ChangeKind } from './sources/change-filter';
+import { Clock, ScoringEngine } from './scoring-engine';
+
+
+/**
+ * One recorded document change. An edit log is a file of these, one JSON object per line.
+ */
+export interface EditLogEntry {
+    /**
+     * When the change happened, in ms since the epoch.
+     */
+    t: number;
+
+    /**
+     * How many characters were inserted.
+     */
+    size: number;
+
+    /**
+     * What caused the change. Only 'user' changes are scored.
+     */
+    kind: ChangeKind;
+}
+
+
+export interface ReplaySample {
+    t: number; // ms since the start of the log
+    rankIndex: number;
+    score: number;
+}
+
+
+export interface ReplayStats {
+    edits: number;
+    durationMs: number;
+
+    /**
+     * The rank and score at a fixed interval.
+     */
+    samples: ReplaySample[];
+
+    /**
+     * Time spent in each rank, indexed by rank index + 1 so no ranking comes first.
+     */
+    timeInRankMs: number[];
+
+    /**
+     * Time from the start of the log until each rank was first reached, indexed like `timeInRankMs`.
+     * Undefined for ranks never reached.
+     */
+    firstReachedMs: (number | undefined)[];
+
+    peakScore: number;
+    peakRankIndex: number;
+    bestCombo: number;
+}
+
+
+export function formatEditLogEntry(entry: EditLogEntry): string {
+    return JSON.stringify(entry) + '\n';
+}
+
+
+/**
+ * Read an edit log, skipping blank and garbled lines, sorted by time.
+ */
+export function parseEditLog(text: string): EditLogEntry[] {
+    const entries: EditLogEntry[] = [];
+    for (let line of text.split(/\r?\n/)) {
+        if (line.trim().length === 0) {
+            continue;
+        }
+        try {
+            const entry = JSON.parse(line);
+            if (typeof entry.t === 'number' && typeof entry.size === 'number' && typeof entry.kind === 'string') {
+                entries.push(entry);
+            }
+        } catch (err) {
+            // ignore a line cut off by a crash
+        }
+    }
+    return entries.sort((a, b) => a.t - b.t);
+}
+
+
+/**
+ * Replay an edit log through the scoring engine, on a clock that jumps from edit to edit.
+ * Typing is rewarded the way the typing source does, except repeated characters aren't penalized
+ * because the log doesn't record the text.
+ *
+ * @param sampleMs how often to sample the rank over time
+ */
+export function replayEditLog(entries: EditLogEntry[], config: StyleMeterConfig, sampleMs: number): ReplayStats {
+    const stats: ReplayStats = {
+        edits: entries.length,
+        durationMs: 0,
+        samples: [],
+        timeInRankMs: [0].concat(config.ranks.map(() => 0)),
+        firstReachedMs: [0 as number | undefined].concat(config.ranks.map(() => undefined)),
+        peakScore: 0,
+        peakRankIndex: -1,
+        bestCombo: 0,
+    };
+    if (entries.length === 0) {
+        return stats;
+    }
+
+    const start = entries[0].t;
+    let time = start;
+    const clock: Clock = { now: () => time };
+    const engine = new ScoringEngine(config, clock);
+    const weight = config.sourceWeights.typing !== undefined ? config.sourceWeights.typing : 1;
+
+    let nextTick = start + config.degradePeriodMs;
+    let nextSample = start;
+
+    const record = () => {
+        const rankIndex = engine.rankIndex();
+        if (stats.firstReachedMs[rankIndex + 1] === undefined) {
+            stats.firstReachedMs[rankIndex + 1] = time - start;
+        }
+        if (engine.score() > stats.peakScore) {
+            stats.peakScore = engine.score();
+        }
+        stats.peakRankIndex = Math.max(stats.peakRankIndex, rankIndex);
+        stats.bestCombo = engine.bestCombo();
+        while (nextSample <= time) {
+            stats.samples.push({ t: nextSample - start, rankIndex, score: engine.score() });
+            nextSample += sampleMs;
+        }
+    };
+
+    // decay runs once per period between edits, like the score keeper's timer
+    const advance = (until: number) => {
+        while (nextTick <= until) {
+            const rankIndex = engine.rankIndex();
+            time = nextTick;
+            engine.tick();
+            stats.timeInRankMs[rankIndex + 1] += config.degradePeriodMs;
+            record();
+            nextTick += config.degradePeriodMs;
+        }
+    };
+
+    for (let entry of entries) {
+        advance(entry.t);
+        time = entry.t;
+        if (entry.kind === 'user') {
+            engine.award({ points: Math.min(entry.size, config.maxChangeReward) * weight, reason: 'typing' });
+        }
+        record();
+    }
+
+    // the time since the last tick, which is in the rank the log ended on
+    stats.timeInRankMs[engine.rankIndex() + 1] += time - (nextTick - config.degradePeriodMs);
+    stats.durationMs = time - start;
+    return stats;
+}
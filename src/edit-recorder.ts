@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from './config';
+import { classifyChange, getChangeInfo } from './sources/change-filter';
+import { formatEditLogEntry } from './edit-log';
+
+
+/**
+ * Appends every document change to an edit log, for replaying through the scoring engine outside VSCode.
+ * Only when, how much and what kind of change is recorded, never the text.
+ */
+export class EditRecorder {
+    public _onDidStop = new vscode.EventEmitter<void>();
+
+    private _stream: fs.WriteStream;
+    private _stopped = false;
+
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(public readonly filepath: string, public readonly config: StyleMeterConfig) {
+        this._stream = fs.createWriteStream(filepath, { flags: 'a' });
+        this._stream.on('error', err => {
+            vscode.window.showErrorMessage(`Style Meter: could not record edits to ${filepath}. ${err.message}`);
+            this.dispose();
+        });
+        vscode.workspace.onDidChangeTextDocument(this._onDidChangeTextDocument, this, this._disposables);
+    }
+
+    /**
+     * Fires once recording stops, whether it was stopped or the log couldn't be written.
+     */
+    get onDidStop() {
+        return this._onDidStop.event;
+    }
+
+    public dispose() {
+        if (this._stopped) {
+            return;
+        }
+        this._stopped = true;
+        for (let d of this._disposables) {
+            d.dispose();
+        }
+        this._disposables = [];
+        this._stream.end();
+
+        this._onDidStop.fire();
+        this._onDidStop.dispose();
+    }
+
+    private _onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent) {
+        const info = getChangeInfo(event);
+        const kind = classifyChange(info, this.config);
+
+        // output and log channels change constantly and are never scored
+        if (kind === 'ignoredScheme') {
+            return;
+        }
+
+        const size = info.changes.reduce((sum, change) => sum + change.text.length, 0);
+        this._stream.write(formatEditLogEntry({ t: new Date().valueOf(), size, kind }));
+    }
+}
@@ -1,23 +1,87 @@
 'use strict';
 
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { StyleMeterConfig, defaultStyleMeterConfig } from './config';
-import { ScoreKeeper } from './score-keeper';
-import { MusicPlayer } from './music-player';
-import { RankDecorator } from './rank-decorator';
+import { Rank, validateRanks } from './rank';
+import { DIFFICULTY_PRESETS, Difficulty } from './difficulty';
+import { StyleMeter } from './style-meter';
+import { StyleReport } from './style-report';
+import { validateMusicLayers } from './music-player';
+import { benchmarkDecorations } from './benchmark';
+import { PublicApi, createExtensionApi } from './public-api';
+import { EditRecorder } from './edit-recorder';
+import { showAchievements, validateAchievements } from './achievements';
+import { SessionExporter } from './session-export';
+import { getSessionsFolder, loadSessions } from './session';
+import { StyleMeterExtension } from '../api/style-meter';
 
 
-let styleMeter: StyleMeter;
+let styleMeter: StyleMeter | undefined;
 let enabled = false;
+let extensionContext: vscode.ExtensionContext;
+let publicApi: PublicApi;
+let editRecorder: EditRecorder | undefined;
+let sessionExporter: SessionExporter;
 
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): StyleMeterExtension {
+    extensionContext = context;
+    publicApi = new PublicApi();
+    context.subscriptions.push(publicApi);
+
+    // posts sessions left over from last time
+    sessionExporter = new SessionExporter(context.globalState);
+    context.subscriptions.push(sessionExporter);
+
     const enableDisposable = vscode.commands.registerCommand("styleMeter.enable", enable);
     context.subscriptions.push(enableDisposable);
 
     const disableDisposable = vscode.commands.registerCommand("styleMeter.disable", disable);
     context.subscriptions.push(disableDisposable);
 
+    const pauseDisposable = vscode.commands.registerCommand("styleMeter.pause", pause);
+    context.subscriptions.push(pauseDisposable);
+
+    const resumeDisposable = vscode.commands.registerCommand("styleMeter.resume", resume);
+    context.subscriptions.push(resumeDisposable);
+
+    const toggleDisposable = vscode.commands.registerCommand("styleMeter.toggle", toggle);
+    context.subscriptions.push(toggleDisposable);
+
+    const resetDisposable = vscode.commands.registerCommand("styleMeter.reset", reset);
+    context.subscriptions.push(resetDisposable);
+
+    const showHudDisposable = vscode.commands.registerCommand("styleMeter.showHud", showHud);
+    context.subscriptions.push(showHudDisposable);
+
+    const showReportDisposable = vscode.commands.registerCommand("styleMeter.showReport", showReport);
+    context.subscriptions.push(showReportDisposable);
+
+    const exportSessionDisposable = vscode.commands.registerCommand("styleMeter.exportSession", exportSession);
+    context.subscriptions.push(exportSessionDisposable);
+
+    const showAchievementsDisposable = vscode.commands.registerCommand("styleMeter.showAchievements",
+        listAchievements);
+    context.subscriptions.push(showAchievementsDisposable);
+
+    const nextTrackDisposable = vscode.commands.registerCommand("styleMeter.nextTrack", nextTrack);
+    context.subscriptions.push(nextTrackDisposable);
+
+    const nowPlayingDisposable = vscode.commands.registerCommand("styleMeter.showNowPlaying", showNowPlaying);
+    context.subscriptions.push(nowPlayingDisposable);
+
+    const recordEditsDisposable = vscode.commands.registerCommand("styleMeter.recordEdits", recordEdits);
+    context.subscriptions.push(recordEditsDisposable);
+
+    const stampRankTrailerDisposable = vscode.commands.registerCommand("styleMeter.stampRankTrailer",
+        stampRankTrailer);
+    context.subscriptions.push(stampRankTrailerDisposable);
+
+    const benchmarkDisposable = vscode.commands.registerCommand("styleMeter.benchmarkDecorations",
+        benchmarkDecorations);
+    context.subscriptions.push(benchmarkDisposable);
+
     const configDisposable = vscode.workspace.onDidChangeConfiguration(onDidChangeConfiguration);
     context.subscriptions.push(configDisposable);
 
@@ -25,10 +89,18 @@ export function activate(context: vscode.ExtensionContext) {
     if (defaultEnabled) {
         enable();
     }
+
+    // for other extensions to follow and feed the meter
+    return createExtensionApi(publicApi);
 }
 
+// the extension host waits for the returned promise, so the final session export isn't cut off
 export function deactivate() {
-    disable();
+    if (editRecorder) {
+        editRecorder.dispose();
+        editRecorder = undefined;
+    }
+    return disable();
 }
 
 function enable() {
@@ -36,61 +108,311 @@ function enable() {
     onDidChangeConfiguration();
 }
 
-function disable() {
+function disable(): Promise<void> {
     enabled = false;
     if (styleMeter) {
-        styleMeter.dispose();
+        publicApi.attach(undefined);
+        const disposed = styleMeter.dispose();
+        styleMeter = undefined;
+        return disposed;
+    }
+    return Promise.resolve();
+}
+
+function pause() {
+    if (styleMeter) {
+        styleMeter.scoreKeeper.pause('manual');
+    }
+}
+
+function resume() {
+    if (styleMeter) {
+        styleMeter.scoreKeeper.resume('manual');
+    }
+}
+
+function toggle() {
+    if (styleMeter && styleMeter.scoreKeeper.paused()) {
+        resume();
+    } else {
+        pause();
+    }
+}
+
+function reset() {
+    if (styleMeter) {
+        styleMeter.scoreKeeper.reset();
     }
 }
 
-function onDidChangeConfiguration() {
+function showHud() {
     if (!enabled) {
+        enable();
+    }
+    if (styleMeter) {
+        styleMeter.showHud();
+    }
+}
+
+function nextTrack() {
+    if (!styleMeter || !styleMeter.nextTrack()) {
+        vscode.window.showInformationMessage('Style Meter: no other track to skip to.');
+    }
+}
+
+function showNowPlaying() {
+    const files = styleMeter ? styleMeter.nowPlaying() : [];
+    if (files.length === 0) {
+        vscode.window.showInformationMessage('Style Meter: no music is playing.');
+    } else {
+        vscode.window.showInformationMessage(`Style Meter: now playing ${files.map(f => path.basename(f)).join(', ')}`);
+    }
+}
+
+// start recording edits to a file for the replay tool, or stop if already recording
+function stampRankTrailer() {
+    if (!styleMeter) {
+        vscode.window.showInformationMessage('Style Meter: enable the style meter to stamp its rank on commits.');
+        return;
+    }
+    if (styleMeter.stampRankTrailer() === 0) {
+        vscode.window.showInformationMessage(
+            'Style Meter: there is no commit message to stamp, or no rank has been reached since the last commit.');
+    }
+}
+
+async function recordEdits() {
+    if (editRecorder) {
+        const filepath = editRecorder.filepath;
+        editRecorder.dispose();
+        editRecorder = undefined;
+        vscode.window.showInformationMessage(`Style Meter: stopped recording edits to ${filepath}`);
+        return;
+    }
+
+    const uri = await vscode.window.showSaveDialog({
+        saveLabel: 'Record Edits',
+        filters: { 'Edit logs': ['jsonl'] },
+    });
+    if (!uri || editRecorder) {
+        return;
+    }
+    const recorder = new EditRecorder(uri.fsPath, readConfig());
+    editRecorder = recorder;
+
+    // forget a recorder that stopped by itself, like on a write error, so the next run starts a new one
+    recorder.onDidStop(() => {
+        if (editRecorder === recorder) {
+            editRecorder = undefined;
+        }
+    });
+    vscode.window.showInformationMessage(
+        `Style Meter: recording edits to ${uri.fsPath}. Run the command again to stop.`);
+}
+
+async function showReport() {
+    // include the session in progress
+    if (styleMeter) {
+        await styleMeter.saveSession();
+    }
+    StyleReport.show(extensionContext.globalState, getSessionsFolder(extensionContext));
+}
+
+// export the session in progress, or the last one if the style meter is off
+async function exportSession() {
+    const config = styleMeter ? styleMeter.config : readConfig();
+    if (styleMeter) {
+        await styleMeter.saveSession();
+    }
+    const sessions = loadSessions(extensionContext.globalState, getSessionsFolder(extensionContext));
+    const session = styleMeter ? styleMeter.session : sessions[sessions.length - 1];
+    if (!session) {
+        vscode.window.showInformationMessage('Style Meter: there is no session to export yet.');
+        return;
+    }
+
+    // ask where to export if there's nowhere set
+    let folder = config.exportFolder;
+    if (!folder && !config.exportUrl) {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            openLabel: 'Export',
+        });
+        if (!uris || uris.length === 0) {
+            return;
+        }
+        folder = uris[0].fsPath;
+    }
+
+    const result = await sessionExporter.export(session, config, folder);
+    const destinations: string[] = [];
+    if (result.folder) {
+        destinations.push(result.folder);
+    }
+    if (result.post === 'sent' && config.exportUrl) {
+        destinations.push(config.exportUrl);
+    }
+    if (destinations.length > 0) {
+        vscode.window.showInformationMessage(`Style Meter: exported the session to ${destinations.join(' and ')}`);
+    }
+
+    // the exporter already warns about a dropped post
+    if (result.post === 'queued') {
+        vscode.window.showWarningMessage(
+            `Style Meter: could not post the session to ${config.exportUrl}. It will be posted again later.`);
+    }
+}
+
+function listAchievements() {
+    return showAchievements(styleMeter ? styleMeter.config : readConfig(), extensionContext.globalState);
+}
+
+function onDidChangeConfiguration(event?: vscode.ConfigurationChangeEvent) {
+    if (!enabled || (event && !event.affectsConfiguration('styleMeter'))) {
         return;
     }
 
-    // dispose of previous configured instance
+    // keep the score and music going if already running
+    const config = readConfig();
     if (styleMeter) {
-        styleMeter.dispose();
+        styleMeter.updateConfig(config);
+    } else {
+        styleMeter = new StyleMeter(config, extensionContext, sessionExporter);
+        publicApi.attach(styleMeter.scoreKeeper);
     }
+}
 
+/**
+ * Read the style meter settings, merged with the difficulty preset and the default config.
+ */
+function readConfig(): StyleMeterConfig {
     // merge the workspace config with the default config
     const input = vscode.workspace.getConfiguration('styleMeter');
     const c = JSON.parse(JSON.stringify(defaultStyleMeterConfig));
-    c.musicFilepath = input.get<string>('musicFilepath', c.musicFilepath);
-    c.maxVolume = input.get<number>('maxVolume', c.maxVolume);
-    c.gainFactor = input.get<number>('gainFactor', c.gainFactor);
-    c.degradationFactor = input.get<number>('degradationFactor', c.degradationFactor);
-    c.rankLetterFontSizePx = input.get<number>('rankLetterFontSizePx', c.rankLetterFontSizePx);
-    c.rankTextFontSizePx = input.get<number>('rankTextFontSizePx', c.rankTextFontSizePx);
-    c.lineHeightPx = input.get<number>('lineHeightPx', c.lineHeightPx);
 
-    styleMeter = new StyleMeter(c);
-}
+    // start from the difficulty preset, then let individual settings override it
+    c.difficulty = getSetting(input, 'difficulty', c.difficulty);
+    Object.assign(c, DIFFICULTY_PRESETS[c.difficulty as Difficulty]);
 
+    c.musicFilepath = getSetting(input, 'musicFilepath', c.musicFilepath);
+    c.maxVolume = getSetting(input, 'maxVolume', c.maxVolume);
+    c.musicPlaylistMode = getSetting(input, 'musicPlaylistMode', c.musicPlaylistMode);
+    c.musicBackend = getSetting(input, 'musicBackend', c.musicBackend);
+    c.musicFadeMs = getSetting(input, 'musicFadeMs', c.musicFadeMs);
+    c.rankUpSounds = getSetting(input, 'rankUpSounds', c.rankUpSounds);
+    c.rankDownSound = getSetting(input, 'rankDownSound', c.rankDownSound);
+    c.comboBreakSound = getSetting(input, 'comboBreakSound', c.comboBreakSound);
+    c.soundEffectsVolume = getSetting(input, 'soundEffectsVolume', c.soundEffectsVolume);
+    c.soundEffectsCooldownMs = getSetting(input, 'soundEffectsCooldownMs', c.soundEffectsCooldownMs);
+    c.commitBonus = getSetting(input, 'commitBonus', c.commitBonus);
+    c.commitBonusMaxLines = getSetting(input, 'commitBonusMaxLines', c.commitBonusMaxLines);
+    c.commitRankStamp = getSetting(input, 'commitRankStamp', c.commitRankStamp);
+    c.exportFolder = getSetting(input, 'exportFolder', c.exportFolder);
+    c.gainFactor = getSetting(input, 'gainFactor', c.gainFactor);
+    c.degradationFactor = getSetting(input, 'degradationFactor', c.degradationFactor);
+    c.maxChangeReward = getSetting(input, 'maxChangeReward', c.maxChangeReward);
+    c.difficultyFactor = getSetting(input, 'difficultyFactor', c.difficultyFactor);
+    c.degradePeriodMs = getSetting(input, 'degradePeriodMs', c.degradePeriodMs);
+    c.decayCurve = getSetting(input, 'decayCurve', c.decayCurve);
+    c.decayAccPps2 = getSetting(input, 'decayAccPps2', c.decayAccPps2);
+    c.decayRatePps = getSetting(input, 'decayRatePps', c.decayRatePps);
+    c.decayHalfLifeMs = getSetting(input, 'decayHalfLifeMs', c.decayHalfLifeMs);
+    c.decayGracePeriodMs = getSetting(input, 'decayGracePeriodMs', c.decayGracePeriodMs);
+    Object.assign(c.sourceWeights, getSetting(input, 'sourceWeights', {}));
+    c.scoredSchemes = getSetting(input, 'scoredSchemes', c.scoredSchemes);
+    c.ignoreUndoRedo = getSetting(input, 'ignoreUndoRedo', c.ignoreUndoRedo);
+    c.ignoreBulkEdits = getSetting(input, 'ignoreBulkEdits', c.ignoreBulkEdits);
+    c.bulkEditMinLength = getSetting(input, 'bulkEditMinLength', c.bulkEditMinLength);
+    c.repeatThreshold = getSetting(input, 'repeatThreshold', c.repeatThreshold);
+    c.repeatDecay = getSetting(input, 'repeatDecay', c.repeatDecay);
+    c.diagnosticErrorWeight = getSetting(input, 'diagnosticErrorWeight', c.diagnosticErrorWeight);
+    c.diagnosticWarningWeight = getSetting(input, 'diagnosticWarningWeight', c.diagnosticWarningWeight);
+    c.diagnosticDebounceMs = getSetting(input, 'diagnosticDebounceMs', c.diagnosticDebounceMs);
+    c.diagnosticDropRank = getSetting(input, 'diagnosticDropRank', c.diagnosticDropRank);
+    c.taskRewards = getSetting(input, 'taskRewards', c.taskRewards);
+    c.comboWindowMs = getSetting(input, 'comboWindowMs', c.comboWindowMs);
+    c.comboMultiplierStep = getSetting(input, 'comboMultiplierStep', c.comboMultiplierStep);
+    c.maxComboMultiplier = getSetting(input, 'maxComboMultiplier', c.maxComboMultiplier);
+    c.pauseWhenUnfocused = getSetting(input, 'pauseWhenUnfocused', c.pauseWhenUnfocused);
+    c.pauseWhileDebugging = getSetting(input, 'pauseWhileDebugging', c.pauseWhileDebugging);
+    c.renderer = getSetting(input, 'renderer', c.renderer);
+    c.webviewHud = getSetting(input, 'webviewHud', c.webviewHud);
+    c.hudEditors = getSetting(input, 'hudEditors', c.hudEditors);
+    c.hudGroup = getSetting(input, 'hudGroup', c.hudGroup);
+    c.rankLetterFontSizePx = getSetting(input, 'rankLetterFontSizePx', c.rankLetterFontSizePx);
+    c.rankTextFontSizePx = getSetting(input, 'rankTextFontSizePx', c.rankTextFontSizePx);
+    c.lineHeightPx = getSetting(input, 'lineHeightPx', c.lineHeightPx);
+    c.effectFloatingNumbers = getSetting(input, 'effectFloatingNumbers', c.effectFloatingNumbers);
+    c.effectRankUpBurst = getSetting(input, 'effectRankUpBurst', c.effectRankUpBurst);
+    c.effectShake = getSetting(input, 'effectShake', c.effectShake);
+    c.effectShakeRanks = getSetting(input, 'effectShakeRanks', c.effectShakeRanks);
+    c.effectsMaxIntensity = getSetting(input, 'effectsMaxIntensity', c.effectsMaxIntensity);
 
-class StyleMeter {
-    private _scoreKeeper: ScoreKeeper;
-    private _disposables: vscode.Disposable[] = [];
+    // use a custom rank ladder if one is given and it makes sense
+    const ranks = getSetting<Rank[]>(input, 'ranks', []);
+    const maxScore = getSetting(input, 'maxScore', c.maxScore);
+    const errors = validateRanks(ranks.length > 0 ? ranks : c.ranks, maxScore);
+    if (errors.length > 0) {
+        vscode.window.showErrorMessage(
+            `Style Meter: invalid rank settings, using the default ranks instead. ${errors.join(' ')}`);
+    } else {
+        if (ranks.length > 0) {
+            c.ranks = ranks;
+        }
+        c.maxScore = maxScore;
+    }
 
-    constructor(public readonly config: StyleMeterConfig) {
-        this._scoreKeeper = new ScoreKeeper(this.config);
-        this._disposables.push(this._scoreKeeper);
+    // layers name ranks, so check them against the ranks in use
+    const musicLayers = getSetting(input, 'musicLayers', c.musicLayers);
+    const musicErrors = validateMusicLayers(musicLayers, c.ranks);
+    if (musicErrors.length > 0) {
+        vscode.window.showErrorMessage(
+            `Style Meter: invalid music layer settings, playing the music filepath instead. ${musicErrors.join(' ')}`);
+    } else {
+        c.musicLayers = musicLayers;
+    }
 
-        const rankDecorator = new RankDecorator(config, this._scoreKeeper);
-        this._disposables.push(rankDecorator);
+    // achievements name ranks too
+    const achievements = getSetting(input, 'achievements', c.achievements);
+    const achievementErrors = validateAchievements(achievements, c.ranks);
+    if (achievementErrors.length > 0) {
+        vscode.window.showErrorMessage(
+            'Style Meter: invalid achievement settings, using the built in achievements only. ' +
+            achievementErrors.join(' '));
+    } else {
+        c.achievements = achievements;
+    }
 
-        // only add a music player if a file is specified an music is not already playing
-        if (config.musicFilepath) {
-            MusicPlayer.isPlaying().then(isPlaying => {
-                if (!isPlaying) {
-                    const musicPlayer = new MusicPlayer(config, this._scoreKeeper);
-                    this._disposables.push(musicPlayer);
-                }
-            });
-        }
+    // only post to web servers
+    const exportUrl = getSetting(input, 'exportUrl', c.exportUrl);
+    if (exportUrl && !/^https?:\/\//.test(exportUrl)) {
+        vscode.window.showErrorMessage(
+            `Style Meter: the export URL must start with http:// or https://, not ${exportUrl}`);
+    } else {
+        c.exportUrl = exportUrl;
     }
 
-    public dispose() {
-        this._disposables.slice(0).forEach(d => d.dispose());
+    return c;
+}
+
+/**
+ * Get a setting only if the user set it, so the defaults in package.json don't override difficulty presets.
+ */
+function getSetting<T>(input: vscode.WorkspaceConfiguration, key: string, fallback: T): T {
+    const inspected = input.inspect<T>(key);
+    if (!inspected) {
+        return fallback;
+    }
+    if (inspected.workspaceFolderValue !== undefined) {
+        return inspected.workspaceFolderValue;
+    }
+    if (inspected.workspaceValue !== undefined) {
+        return inspected.workspaceValue;
     }
+    if (inspected.globalValue !== undefined) {
+        return inspected.globalValue;
+    }
+    return fallback;
 }
+
@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+
+
+/*
+The parts of the API of VSCode's built-in git extension that the style meter uses.
+See extensions/git/src/api/git.d.ts in the VSCode repository for the full API.
+Members marked optional are missing from older versions of VSCode.
+*/
+
+export interface GitExtension {
+    readonly enabled?: boolean;
+    getAPI(version: 1): GitApi;
+}
+
+
+export interface GitApi {
+    readonly repositories: Repository[];
+    readonly onDidOpenRepository: vscode.Event<Repository>;
+}
+
+
+export interface Repository {
+    readonly rootUri: vscode.Uri;
+    readonly inputBox: InputBox;
+    readonly state: RepositoryState;
+
+    getCommit?(ref: string): Promise<Commit>;
+    diffBetween?(ref1: string, ref2: string): Promise<Change[]>;
+    diffBetween?(ref1: string, ref2: string, path: string): Promise<string>;
+}
+
+
+export interface InputBox {
+    value: string;
+}
+
+
+export interface RepositoryState {
+    readonly HEAD: Branch | undefined;
+    readonly onDidChange: vscode.Event<void>;
+}
+
+
+export interface Branch {
+    readonly name?: string;
+    readonly commit?: string;
+}
+
+
+export interface Commit {
+    readonly hash: string;
+    readonly message: string;
+    readonly parents: string[];
+    readonly authorDate?: Date;
+}
+
+
+export interface Change {
+    readonly uri: vscode.Uri;
+}
+
+
+/**
+ * Get the git extension's API, activating it if needed.
+ * Resolves to undefined if git is disabled or the extension is missing.
+ */
+export async function getGitApi(): Promise<GitApi | undefined> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) {
+        return undefined;
+    }
+    const git = extension.isActive ? extension.exports : await extension.activate();
+    if (!git || git.enabled === false) {
+        return undefined;
+    }
+    return git.getAPI(1);
+}
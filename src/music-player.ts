@@ -1,105 +1,295 @@
-import { ScoreChangeEvent, ScoreKeeper } from './score-keeper';
+import { ScoreChangeEvent, ScoreFeed } from './score-keeper';
 import { StyleMeterConfig } from './config';
-import { ChildProcess } from 'child_process';
-import { Disposable } from 'vscode';
-
-const vol = require('vol');
-const psList = require('ps-list');
-
-const PLAYERS = [
-    'mplayer',
-    'afplay',
-    'mpg123',
-    'mpg321',
-    'play',
-    'omxplayer',
-    'aplay',
-    'cmdmp3'
-];
-const player = require('play-sound')({players: PLAYERS});
+import { Rank } from './rank';
+import { AudioTrack, AudioTrackEndEvent, playAudio } from './audio-backend';
+import { Playlist, resolveMusicFiles } from './playlist';
+import { Disposable, window } from 'vscode';
 
 const MIN_VOLUME_UPDATE_PERIOD_MS = 200;
 
+/**
+ * How often layer gains are stepped while fading.
+ */
+const FADE_STEP_MS = 50;
+
+
+/**
+ * A track or stem that plays from one rank up to another.
+ * All layers start together and only their gains change, so stems stay in sync.
+ */
+export interface MusicLayer {
+    filepath: string;
+
+    /**
+     * The text of the lowest rank the layer plays at. Defaults to the lowest rank.
+     */
+    fromRank?: string;
+
+    /**
+     * The text of the highest rank the layer plays at. Defaults to the highest rank.
+     */
+    toRank?: string;
+}
+
+
+/**
+ * Returns the music layers to play, or a single layer playing at every score for the old music filepath setting.
+ */
+export function getMusicLayers(config: StyleMeterConfig): MusicLayer[] {
+    if (config.musicLayers.length > 0) {
+        return config.musicLayers;
+    }
+    return config.musicFilepath ? [{ filepath: config.musicFilepath }] : [];
+}
+
+
+/**
+ * Returns a list of problems with the music layers setting, or an empty list if it makes sense with the ranks.
+ */
+export function validateMusicLayers(layers: any, ranks: Rank[]): string[] {
+    const errors: string[] = [];
+
+    if (!Array.isArray(layers)) {
+        errors.push('musicLayers must be an array.');
+        return errors;
+    }
+
+    const rankTexts = ranks.map(rank => rank.text);
+    layers.forEach((layer: any, i: number) => {
+        const name = `musicLayers[${i}]`;
+        if (typeof layer !== 'object' || layer === null) {
+            errors.push(`${name} must be an object.`);
+            return;
+        }
+        if (typeof layer.filepath !== 'string' || layer.filepath.length === 0) {
+            errors.push(`${name}.filepath must be a non-empty string.`);
+        }
+        for (let key of ['fromRank', 'toRank']) {
+            if (layer[key] !== undefined && rankTexts.indexOf(layer[key]) < 0) {
+                errors.push(`${name}.${key} must be one of the rank texts ${rankTexts.join(', ')}.`);
+            }
+        }
+    });
+
+    return errors;
+}
+
+
+interface PlayingLayer {
+    layer: MusicLayer;
+    track: AudioTrack;
+
+    // how loud the layer is relative to the music, faded towards 0 or 1 as the rank changes
+    gain: number;
+}
+
+
 export class MusicPlayer {
-    // the process playing audio
-    private _audioProcess?: ChildProcess;
+    // the music, playing through the configured backend
+    private _layers: PlayingLayer[] = [];
+
+    // the tracks for the music filepath setting, when not playing layers
+    private _playlist?: Playlist;
+
+    // how many tracks in a row have failed to play
+    private _failures = 0;
 
-    // the volume value from before this extension messed with it
-    private _prevVolume: number;
+    // the volume that layers are faded within, following the score
+    private _volume = 0;
 
     // the last epoch the volume was set
     private _lastVolumeUpdateTimeMs = 0;
 
+    // timer stepping layer gains during a fade
+    private _fadeTimer?: NodeJS.Timer;
+
     private _disposables: Disposable[] = [];
 
-    constructor(public readonly config: StyleMeterConfig, private readonly _scoreKeeper: ScoreKeeper) {
-        if (!this.config.musicFilepath) {
-            throw new Error('do not create a music player without music filepath');
+    constructor(public config: StyleMeterConfig, private readonly _scoreFeed: ScoreFeed) {
+        if (this.config.musicLayers.length > 0) {
+            this._playLayers(this.config.musicLayers);
+        } else {
+            if (!this.config.musicFilepath) {
+                throw new Error('do not create a music player without music filepath');
+            }
+            const files = resolveMusicFiles(this.config.musicFilepath);
+            if (files.length === 0) {
+                throw new Error(`no music found at ${this.config.musicFilepath}`);
+            }
+            this._playlist = new Playlist(files, this.config.musicPlaylistMode);
+            this._playTrack();
         }
 
-        this._scoreKeeper.onScoreChange(this.updateVolume, this, this._disposables);
-
-        this._prevVolume = vol.get();
-        vol.set(0);
-        this._loopAudio(this.config.musicFilepath);
+        this._scoreFeed.onScoreChange(this.updateVolume, this, this._disposables);
+        this._scoreFeed.onRankChange(this._fade, this, this._disposables);
     }
 
     public dispose(): void {
         for (let d of this._disposables) {
             d.dispose();
         }
+        if (this._fadeTimer) {
+            clearInterval(this._fadeTimer);
+        }
 
         // stop music
-        if (this._audioProcess) {
-            this._audioProcess.kill();
+        this._stop();
+    }
+
+    /**
+     * The files playing right now.
+     */
+    get nowPlaying(): string[] {
+        return this._layers.map(playing => playing.layer.filepath);
+    }
+
+    /**
+     * Skip to the next track of the playlist. Returns false if there is no other track to skip to.
+     */
+    public nextTrack(): boolean {
+        if (!this._playlist || this._playlist.files.length < 2) {
+            return false;
         }
+        this._playlist.next(true);
+        this._failures = 0;
+        this._tryPlayTrack();
+        return true;
+    }
 
-        // set volume back to previously set value
-        vol.set(this._prevVolume);
+    /**
+     * Switch to a new config without restarting the music. The music files and backend can't be changed this way.
+     */
+    public updateConfig(config: StyleMeterConfig): void {
+        this.config = config;
+        if (this._playlist) {
+            this._playlist.mode = config.musicPlaylistMode;
+        }
+        this._lastVolumeUpdateTimeMs = 0;
+        this.updateVolume({ rankIndex: this._scoreFeed.rankIndex(), score: this._scoreFeed.score() });
+        this._fade();
     }
 
     public updateVolume(event: ScoreChangeEvent): void {
         const now = new Date().valueOf();
-        if (this.config.musicFilepath &&
-                (now - this._lastVolumeUpdateTimeMs) >= MIN_VOLUME_UPDATE_PERIOD_MS) {
-            const volume = (event.score / this.config.maxScore) * this.config.maxVolume;
-            vol.set(volume);
+        if ((now - this._lastVolumeUpdateTimeMs) >= MIN_VOLUME_UPDATE_PERIOD_MS) {
+            this._volume = (event.score / this.config.maxScore) * this.config.maxVolume;
+            this._applyVolumes();
             this._lastVolumeUpdateTimeMs = now;
         }
     }
 
-    /**
-     * Returns true if a process spawned by MusicPlayer might already be playing on this system.
-     */
-    public static async isPlaying(): Promise<boolean> {
-        const ps = await psList(); // get currently running processes
-
-        // return true if any of the processes have the same name as an audio player
-        for (let proc of ps) {
-            for (let audioPlayer of PLAYERS) {
-                if (proc.name.startsWith(audioPlayer)) {
-                    return true;
-                }
+    // start every layer at once so they stay in sync
+    private _playLayers(layers: MusicLayer[]) {
+        if (layers.length > 1 && this.config.musicBackend === 'systemVolume') {
+            throw new Error('the systemVolume backend can only play a single music file, not layers');
+        }
+
+        const rankIndex = this._scoreFeed.rankIndex();
+        try {
+            for (let layer of layers) {
+                const track = playAudio(this.config.musicBackend, layer.filepath, true);
+                this._layers.push({ layer, track, gain: this._isAudible(layer, rankIndex) ? 1 : 0 });
+            }
+        } catch (err) {
+            this._stop();
+            throw err;
+        }
+    }
+
+    // replace whatever is playing with the current track of the playlist
+    private _playTrack() {
+        const filepath = this._playlist!.current;
+        this._stop();
+
+        // a lone file loops in the player, which leaves no gap between plays
+        // anything else plays once, and the end event picks what comes next
+        const track = playAudio(this.config.musicBackend, filepath, this._playlist!.files.length === 1);
+        track.onDidEnd(this._onTrackEnd, this);
+        this._layers = [{ layer: { filepath }, track, gain: 1 }];
+        this._applyVolumes();
+    }
+
+    // play the next track from an end event or command, where errors can't be thrown
+    private _tryPlayTrack() {
+        try {
+            this._playTrack();
+        } catch (err) {
+            window.showWarningMessage(`Style Meter music could not be played: ${err.message}`);
+        }
+    }
+
+    private _onTrackEnd(event: AudioTrackEndEvent) {
+        if (event.error) {
+            // give up once every track has failed in a row
+            this._failures++;
+            if (this._failures >= this._playlist!.files.length) {
+                this._stop();
+                window.showWarningMessage(`Style Meter music could not be played: ${event.error}`);
+                return;
             }
+        } else {
+            this._failures = 0;
         }
-        return false;
+
+        // skip a track that failed, even when repeating it
+        this._playlist!.next(event.error !== undefined);
+        this._tryPlayTrack();
+    }
+
+    private _stop() {
+        this._layers.forEach(playing => playing.track.dispose());
+        this._layers = [];
     }
 
-    private _loopAudio(audioFilepath: string) {
-        const audioProcess: ChildProcess = player.play(audioFilepath, (err: any) => {
-            if (err && !err.killed) {
-                throw err;
+    // step every layer's gain towards whether it should be heard at the current rank
+    private _fade() {
+        if (this._fadeTimer) {
+            return;
+        }
+        this._fadeTimer = setInterval(() => {
+            const rankIndex = this._scoreFeed.rankIndex();
+            const step = this.config.musicFadeMs > 0 ? FADE_STEP_MS / this.config.musicFadeMs : 1;
+            let fading = false;
+            for (let playing of this._layers) {
+                const target = this._isAudible(playing.layer, rankIndex) ? 1 : 0;
+                if (playing.gain < target) {
+                    playing.gain = Math.min(playing.gain + step, target);
+                } else {
+                    playing.gain = Math.max(playing.gain - step, target);
+                }
+                fading = fading || playing.gain !== target;
             }
-        });
+            this._applyVolumes();
 
-        // call this function again when the process ends
-        audioProcess.on('exit', (code, signal) => {
-            // only replay on a success
-            if (code === 0) {
-                this._loopAudio(audioFilepath); // TODO this recursion might be leaking memory
+            if (!fading && this._fadeTimer) {
+                clearInterval(this._fadeTimer);
+                this._fadeTimer = undefined;
             }
-        });
+        }, FADE_STEP_MS);
+    }
+
+    private _applyVolumes() {
+        for (let playing of this._layers) {
+            playing.track.setVolume(this._volume * playing.gain);
+        }
+    }
+
+    // a layer without a rank range plays at every rank, but every layer fades out below the lowest rank
+    // tracks of the music filepath setting aren't layers, and only follow the score
+    private _isAudible(layer: MusicLayer, rankIndex: number): boolean {
+        if (this._playlist) {
+            return true;
+        }
+        if (rankIndex < 0) {
+            return false;
+        }
+        if (layer.fromRank === undefined && layer.toRank === undefined) {
+            return true;
+        }
 
-        this._audioProcess = audioProcess;
+        const rankTexts = this.config.ranks.map(rank => rank.text);
+        const from = layer.fromRank !== undefined ? rankTexts.indexOf(layer.fromRank) : 0;
+        const to = layer.toRank !== undefined ? rankTexts.indexOf(layer.toRank) : rankTexts.length - 1;
+        return from <= rankIndex && rankIndex <= to;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+
+/**
+ * How the next track is picked when one finishes.
+ * 'sequential' plays tracks in order and starts over at the end,
+ * 'shuffle' plays every track once in a random order before shuffling again,
+ * and 'repeatOne' keeps playing the same track until skipped.
+ */
+export type PlaylistMode = 'sequential' | 'shuffle' | 'repeatOne';
+
+
+/**
+ * File extensions played from a music directory.
+ */
+const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.ogg', '.oga', '.flac', '.m4a', '.aac', '.opus', '.wma'];
+
+const PLAYLIST_EXTENSIONS = ['.m3u', '.m3u8'];
+
+const GLOB_CHARS = /[*?[]/;
+
+
+/**
+ * Get the music files for the music filepath setting, which can be
+ * a single file, a directory, a glob like `/music/*.mp3` or an M3U playlist.
+ * Returns an empty list if nothing is found.
+ */
+export function resolveMusicFiles(setting: string): string[] {
+    if (GLOB_CHARS.test(setting)) {
+        return _expandGlob(setting);
+    }
+
+    let stat: fs.Stats;
+    try {
+        stat = fs.statSync(setting);
+    } catch (err) {
+        return [];
+    }
+
+    if (stat.isDirectory()) {
+        return fs.readdirSync(setting)
+            .filter(name => AUDIO_EXTENSIONS.indexOf(path.extname(name).toLowerCase()) >= 0)
+            .sort()
+            .map(name => path.join(setting, name));
+    }
+    if (PLAYLIST_EXTENSIONS.indexOf(path.extname(setting).toLowerCase()) >= 0) {
+        return _readM3u(setting);
+    }
+    return [setting];
+}
+
+
+/**
+ * Picks tracks from a list of files.
+ */
+export class Playlist {
+    private _order: number[] = [];
+    private _position = 0;
+
+    constructor(public readonly files: string[], private _mode: PlaylistMode) {
+        this._resetOrder();
+    }
+
+    get current(): string {
+        return this.files[this._order[this._position]];
+    }
+
+    get mode(): PlaylistMode {
+        return this._mode;
+    }
+
+    set mode(mode: PlaylistMode) {
+        if (mode === this._mode) {
+            return;
+        }
+
+        // carry on from the track that's playing
+        const current = this._order[this._position];
+        this._mode = mode;
+        this._resetOrder();
+        this._position = this._order.indexOf(current);
+    }
+
+    /**
+     * Move to the track to play after the current one finishes, or after it is skipped.
+     * Repeat-one mode only moves on when skipping.
+     */
+    public next(skip: boolean): string {
+        if (this._mode === 'repeatOne' && !skip) {
+            return this.current;
+        }
+
+        this._position++;
+        if (this._position >= this._order.length) {
+            // start over, with a new order when shuffling
+            const last = this._order[this._order.length - 1];
+            this._resetOrder();
+            if (this._order.length > 1 && this._order[0] === last) {
+                this._order.push(this._order.shift()!);
+            }
+        }
+        return this.current;
+    }
+
+    private _resetOrder() {
+        this._order = this.files.map((file, i) => i);
+        this._position = 0;
+        if (this._mode === 'shuffle') {
+            for (let i = this._order.length - 1; i > 0; i--) {
+                const j = Math.floor(Math.random() * (i + 1));
+                [this._order[i], this._order[j]] = [this._order[j], this._order[i]];
+            }
+        }
+    }
+}
+
+
+// m3u lines are file paths or urls relative to the playlist, or comments starting with #
+function _readM3u(filepath: string): string[] {
+    let text: string;
+    try {
+        text = fs.readFileSync(filepath, 'utf8');
+    } catch (err) {
+        return [];
+    }
+
+    const dir = path.dirname(filepath);
+    return text.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !line.startsWith('#'))
+        .map(line => /^[a-z]+:\/\//i.test(line) ? line : path.resolve(dir, line));
+}
+
+
+// supports *, ? and [abc] within a path segment, and ** for any number of directories
+function _expandGlob(pattern: string): string[] {
+    const segments = pattern.split(/[\\/]/);
+    const firstGlob = segments.findIndex(segment => GLOB_CHARS.test(segment));
+    const globSegments = segments.slice(firstGlob);
+    const base = firstGlob === 0 ? '.' : segments.slice(0, firstGlob).join(path.sep) || path.sep;
+    const regex = _globToRegExp(globSegments);
+
+    // only search as deep as the pattern goes
+    const maxDepth = globSegments.indexOf('**') >= 0 ? Infinity : globSegments.length - 1;
+
+    const files: string[] = [];
+    const walk = (dir: string, relative: string, depth: number) => {
+        let names: string[];
+        try {
+            names = fs.readdirSync(dir);
+        } catch (err) {
+            return;
+        }
+        for (let name of names) {
+            const filepath = path.join(dir, name);
+            const relativePath = relative ? `${relative}/${name}` : name;
+            let stat: fs.Stats;
+            try {
+                stat = fs.statSync(filepath);
+            } catch (err) {
+                continue;
+            }
+            if (stat.isDirectory()) {
+                if (depth < maxDepth) {
+                    walk(filepath, relativePath, depth + 1);
+                }
+            } else if (regex.test(relativePath)) {
+                files.push(filepath);
+            }
+        }
+    };
+    walk(base, '', 0);
+    return files.sort();
+}
+
+
+function _globToRegExp(segments: string[]): RegExp {
+    const source = segments.map((segment, i) => {
+        if (segment === '**') {
+            return i === segments.length - 1 ? '.*' : '(?:[^/]+/)*';
+        }
+        const escaped = segment.replace(/[.+^${}()|\\]/g, '\\$&')
+            .replace(/\*/g, '[^/]*')
+            .replace(/\?/g, '[^/]');
+        return `${escaped}/`;
+    }).join('');
+
+    // drop the slash after the last segment
+    return new RegExp(`^${source.replace(/\/$/, '')}$`);
+}
@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import {
+    RankChangeEvent, ScoreChangeEvent, ScoringSource, StyleAwardEvent, StyleMeterApi, StyleMeterExtension, StyleRank
+} from '../api/style-meter';
+import { ScoreKeeper } from './score-keeper';
+import { isBuiltInSource } from './sources';
+
+
+/**
+ * The API versions that `getApi` can return. See api/style-meter.d.ts for the types other extensions use.
+ */
+export const API_VERSIONS = [1];
+
+
+/**
+ * Version 1 of the API. Outlives the style meter being turned off and on, and follows whichever
+ * score keeper is current.
+ */
+export class PublicApi implements StyleMeterApi {
+    public _onScoreChange = new vscode.EventEmitter<ScoreChangeEvent>();
+    public _onRankChange = new vscode.EventEmitter<RankChangeEvent>();
+
+    public readonly version = 1;
+
+    private _scoreKeeper?: ScoreKeeper;
+
+    // subscriptions to the current score keeper
+    private _scoreKeeperDisposables: vscode.Disposable[] = [];
+
+    private _disposables: vscode.Disposable[] = [
+        this._onScoreChange,
+        this._onRankChange,
+    ];
+
+    get enabled(): boolean {
+        return this._scoreKeeper !== undefined;
+    }
+
+    get onScoreChange() {
+        return this._onScoreChange.event;
+    }
+
+    get onRankChange() {
+        return this._onRankChange.event;
+    }
+
+    /**
+     * Follow a new score keeper, or nothing while the style meter is off.
+     */
+    public attach(scoreKeeper: ScoreKeeper | undefined) {
+        if (scoreKeeper === this._scoreKeeper) {
+            return;
+        }
+        const prevRankIndex = this.rankIndex();
+        this._scoreKeeperDisposables.forEach(d => d.dispose());
+        this._scoreKeeperDisposables = [];
+        this._scoreKeeper = scoreKeeper;
+
+        if (scoreKeeper) {
+            scoreKeeper.onScoreChange(this._onScoreChange.fire, this._onScoreChange, this._scoreKeeperDisposables);
+            scoreKeeper.onRankChange(this._onRankChange.fire, this._onRankChange, this._scoreKeeperDisposables);
+        }
+        this._onScoreChange.fire({ rankIndex: this.rankIndex(), score: this.score() });
+        if (this.rankIndex() !== prevRankIndex) {
+            this._onRankChange.fire({ rankIndex: this.rankIndex() });
+        }
+    }
+
+    public score(): number {
+        return this._scoreKeeper ? this._scoreKeeper.score() : 0;
+    }
+
+    public rankIndex(): number {
+        return this._scoreKeeper ? this._scoreKeeper.rankIndex() : -1;
+    }
+
+    public rank(): StyleRank | undefined {
+        const rankIndex = this.rankIndex();
+        if (!this._scoreKeeper || rankIndex < 0) {
+            return undefined;
+        }
+        const rank = this._scoreKeeper.config.ranks[rankIndex];
+        return { text: rank.text, smallText: rank.smallText, score: rank.score };
+    }
+
+    public award(points: number, reason: string) {
+        _validatePoints(points);
+        if (this._scoreKeeper) {
+            this._scoreKeeper.onAward({ points, reason });
+        }
+    }
+
+    public registerScoringSource(name: string, source: ScoringSource): vscode.Disposable {
+        // sharing a built in source's name would share the weight the user set for it
+        if (isBuiltInSource(name)) {
+            throw new Error(`the source name '${name}' is taken by a built in source`);
+        }
+        return source.onAward(event => this._onSourceAward(name, event));
+    }
+
+    public dispose() {
+        this.attach(undefined);
+        for (let d of this._disposables) {
+            d.dispose();
+        }
+    }
+
+    // weight awards like the built in sources, looking the weight up each time so setting changes apply
+    private _onSourceAward(name: string, event: StyleAwardEvent) {
+        _validatePoints(event.points);
+        if (!this._scoreKeeper) {
+            return;
+        }
+        const weight = this._scoreKeeper.config.sourceWeights[name];
+        const points = event.points * (weight !== undefined ? weight : 1);
+        this._scoreKeeper.onAward({ points, reason: event.reason, dropRank: event.dropRank });
+    }
+}
+
+
+function _validatePoints(points: number) {
+    if (typeof points !== 'number' || !isFinite(points)) {
+        throw new Error('points must be a finite number');
+    }
+}
+
+
+/**
+ * Create the object returned from `activate`.
+ */
+export function createExtensionApi(api: PublicApi): StyleMeterExtension {
+    return {
+        apiVersions: API_VERSIONS,
+        getApi(version: number) {
+            if (version !== 1) {
+                throw new Error(`Style Meter API version ${version} is not supported. ` +
+                    `Supported versions: ${API_VERSIONS.join(', ')}.`);
+            }
+            return api;
+        },
+    };
+}
@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
-import { RankChangeEvent, ScoreChangeEvent } from './score-keeper';
+import { FlashEvent, RankChangeEvent } from './score-keeper';
 import { StyleMeterConfig } from './config';
 import { ScoreKeeper } from './score-keeper';
-import { RankColor } from './rank';
+import { RankColor, getCssColor, getGradient, getRankProgress } from './rank';
+import { StyleRenderer } from './renderer';
 
 const pixelWidth = require('string-pixel-width');
 
@@ -10,15 +11,45 @@ const pixelWidth = require('string-pixel-width');
 /**
  * How long the rank text should stay on screen.
  */
-const RANK_TEXT_TIMEOUT_MS = 1000;
+export const RANK_TEXT_TIMEOUT_MS = 1000;
+
+/**
+ * How long a flash message like 'Tests passed!' stays in place of the rank text.
+ */
+export const FLASH_TIMEOUT_MS = 2000;
 
 const METER_MIN_WIDTH_PX = 20;
 const METER_MIN_HEIGHT_PX = 3;
 
+/**
+ * The number of widths the meter can be drawn at. Each width has its own decoration type.
+ */
+const METER_STEPS = 32;
+
+/**
+ * The shortest time between redraws. Events in between are drawn together.
+ */
+const FRAME_BUDGET_MS = 16;
+
+/**
+ * The smallest combo worth showing.
+ */
+const MIN_DISPLAYED_COMBO = 2;
+
+/**
+ * The size of the combo count relative to the rank text.
+ */
+const COMBO_FONT_SIZE_RATIO = 0.6;
+
+/**
+ * The gap between the meter and the combo count.
+ */
+const COMBO_TOP_MARGIN_PX = 4;
+
 /**
  * The hsl color of the style meter at the start of a rank score threshold.
  */
-const METER_COLOR_START: RankColor = {
+export const METER_COLOR_START: RankColor = {
     h: 15,
     s: 100,
     l: 51
@@ -27,80 +58,150 @@ const METER_COLOR_START: RankColor = {
 /**
  * The hsl color of the style meter at the end of a rank score threshold.
  */
-const METER_COLOR_END: RankColor = {
+export const METER_COLOR_END: RankColor = {
     h: 60,
     s: 84,
     l: 74
 };
 
 
-function _getCssColor(color: RankColor): string {
-    return `hsl(${Math.round(color.h)}, ${Math.round(color.s)}\%, ${Math.round(color.l)}\%)`;
+/**
+ * Counts of decoration work done by every rank decorator, for benchmarking.
+ */
+export const decorationStats = {
+    created: 0,
+    disposed: 0,
+    drawn: 0,
+};
+
+
+function _createDecorationType(options: vscode.DecorationRenderOptions): vscode.TextEditorDecorationType {
+    decorationStats.created++;
+    return vscode.window.createTextEditorDecorationType(options);
+}
+
+
+function _disposeDecorationType(decoration: vscode.TextEditorDecorationType) {
+    decorationStats.disposed++;
+    decoration.dispose();
+}
+
+
+interface DecorationTarget {
+    editor: vscode.TextEditor;
+    decoration: vscode.TextEditorDecorationType;
+    ranges: vscode.DecorationOptions[];
 }
 
 
 /**
- * Get a color that is `progress`% between `start` and `end`.
- * 
- * @param start an hsl color
- * @param end an hsl color
- * @param progress the percentage between start and end to get
+ * One part of the meter, drawn with one of many cached decoration types.
+ * Remembers what it drew in each editor so it only sends changes.
  */
-function _getGradient(start: RankColor, end: RankColor, progress: number): RankColor {
-    return {
-        h: (start.h + progress * (end.h - start.h)) % 360,
-        s: start.s + progress * (end.s - start.s),
-        l: start.l + progress * (end.l - start.l)
-    };
-}
+class DecorationSlot {
+    private _drawn = new Map<vscode.TextEditor, { decoration: vscode.TextEditorDecorationType, key: string }>();
 
+    public show(targets: DecorationTarget[]) {
+        const next = new Map<vscode.TextEditor, { decoration: vscode.TextEditorDecorationType, key: string }>();
+        for (let target of targets) {
+            next.set(target.editor, { decoration: target.decoration, key: JSON.stringify(target.ranges) });
+        }
 
-class ReplaceableDecoration {
-    private _decoration?: vscode.TextEditorDecorationType;
+        // take the old decoration off editors that won't get the same one again
+        this._drawn.forEach((drawn, editor) => {
+            const nextDrawn = next.get(editor);
+            if (!nextDrawn || nextDrawn.decoration !== drawn.decoration) {
+                _setDecorations(editor, drawn.decoration, []);
+            }
+        });
 
-    public replace(d: vscode.TextEditorDecorationType, editor: vscode.TextEditor, ranges: vscode.Range[]) {
-        this.dispose();
-        this._decoration = d;
-        editor.setDecorations(this._decoration, ranges);
+        for (let target of targets) {
+            const drawn = this._drawn.get(target.editor);
+            const key = next.get(target.editor)!.key;
+            if (!drawn || drawn.decoration !== target.decoration || drawn.key !== key) {
+                _setDecorations(target.editor, target.decoration, target.ranges);
+            }
+        }
+        this._drawn = next;
     }
 
-    public dispose() {
-        if (this._decoration) {
-            this._decoration.dispose();
-        }
+    public clear() {
+        this.show([]);
     }
 }
 
 
-export class RankDecorator {
-    private _activeRankDecoration = new ReplaceableDecoration();
-    private _activeSmallRankDecortion = new ReplaceableDecoration();
-    private _activeMeterDecoration = new ReplaceableDecoration();
+function _setDecorations(editor: vscode.TextEditor, decoration: vscode.TextEditorDecorationType,
+        ranges: vscode.DecorationOptions[]) {
+    // closed editors can't be drawn in, and their decorations are already gone
+    if (vscode.window.visibleTextEditors.indexOf(editor) < 0) {
+        return;
+    }
+    decorationStats.drawn++;
+    editor.setDecorations(decoration, ranges);
+}
+
+
+/**
+ * Draws the style meter with editor decorations at the top right of the active editor,
+ * or of every visible editor, depending on the config.
+ *
+ * Decoration types are built once per rank and per meter width and reused,
+ * and redraws are coalesced to at most one per frame.
+ */
+export class RankDecorator implements StyleRenderer {
+    private _rankSlot = new DecorationSlot();
+    private _smallRankSlot = new DecorationSlot();
+    private _meterSlot = new DecorationSlot();
+    private _comboSlot = new DecorationSlot();
+
+    // cached decoration types
+    private _rankDecorations: vscode.TextEditorDecorationType[] = [];
+    private _smallRankDecorations = new Map<string, vscode.TextEditorDecorationType>();
+    private _meterDecorations: vscode.TextEditorDecorationType[] = [];
+    private _comboDecoration?: vscode.TextEditorDecorationType;
+    private _flashDecoration?: vscode.TextEditorDecorationType;
+
+    // the rank whose small text is showing, until the timer takes it away
+    private _smallTextRankIndex = -1;
 
     // timer for small text disappearing after a rank change
     private _smallTextTimer?: NodeJS.Timer;
 
-    private _disposables: vscode.Disposable[] = [
-        this._activeRankDecoration,
-        this._activeSmallRankDecortion,
-        this._activeMeterDecoration
-    ];
+    // the message showing in place of the small text, until its timer takes it away
+    private _flash?: FlashEvent;
+    private _flashTimer?: NodeJS.Timer;
+
+    // timer for the next coalesced redraw, and when the last one happened
+    private _drawTimer?: NodeJS.Timer;
+    private _lastDrawTime = 0;
+
+    // the last focused editor that can show the meter
+    private _lastActiveEditor?: vscode.TextEditor;
+
+    private _disposables: vscode.Disposable[] = [];
 
     // cached pixel values and css
     private _rankLetterPixelWidths: number[] = [];
     private _rankFullWidth: number;
     private _rankTextTopMargin: number;
+    private _comboTopMargin: number;
     private _meterWidthPx: number;
     private _rankLetterCss: string;
     private _rankTextCss: string;
     private _meterCss: string;
+    private _comboCss: string;
 
     constructor(public readonly config: StyleMeterConfig, private readonly _scoreKeeper: ScoreKeeper) {
         vscode.window.onDidChangeTextEditorVisibleRanges(this._onDidChangeTextEditorVisibleRanges, this,
             this._disposables);
-        this._scoreKeeper.onRankChange(this._updateRankDecoration, this, this._disposables);
-        this._scoreKeeper.onRankChange(this._updateSmallRankDecoration, this, this._disposables);
-        this._scoreKeeper.onScoreChange(this._updateMeterDecoration, this, this._disposables);
+        vscode.window.onDidChangeActiveTextEditor(this._requestDraw, this, this._disposables);
+        vscode.window.onDidChangeVisibleTextEditors(this._requestDraw, this, this._disposables);
+        this._scoreKeeper.onRankChange(this._onRankChange, this, this._disposables);
+        this._scoreKeeper.onScoreChange(this._requestDraw, this, this._disposables);
+        this._scoreKeeper.onComboChange(this._requestDraw, this, this._disposables);
+        this._scoreKeeper.onPauseChange(this._requestDraw, this, this._disposables);
+        this._scoreKeeper.onFlash(this._onFlash, this, this._disposables);
 
         // calculate pixel widths of rank letter and text
         // this keeps the rank text from flying off the screen
@@ -176,6 +277,28 @@ export class RankDecorator {
             top: ${topMargin + config.rankLetterFontSizePx}px;
             height: ${meterHeightPx}px;
         `;
+        const comboFontSizePx = config.rankTextFontSizePx * COMBO_FONT_SIZE_RATIO;
+        this._comboTopMargin = topMargin + config.rankLetterFontSizePx + meterHeightPx + COMBO_TOP_MARGIN_PX;
+        this._comboCss = `
+            none;
+            position: absolute;
+            display: inline-block;
+            right: 0px;
+            width: ${maxRankFullWidth}px;
+            font-size: ${comboFontSizePx}px;
+            font-style: italic;
+            font-family: serif;
+            font-weight: bold;
+            text-align: left;
+            text-shadow: 1px 1px 6px;
+            line-height: normal;
+        `;
+
+        // the rank letters never change, so build them all up front
+        this._rankDecorations = config.ranks.map((rank, i) => this._createRankDecoration(i));
+
+        // pick up where the score keeper is, e.g. after being rebuilt for new settings
+        this._requestDraw();
     }
 
     public dispose(): void {
@@ -183,7 +306,24 @@ export class RankDecorator {
             d.dispose();
         }
         if (this._smallTextTimer) {
-            clearInterval(this._smallTextTimer);
+            clearTimeout(this._smallTextTimer);
+        }
+        if (this._flashTimer) {
+            clearTimeout(this._flashTimer);
+        }
+        if (this._drawTimer) {
+            clearTimeout(this._drawTimer);
+        }
+
+        // disposing the types also takes them off every editor
+        this._rankDecorations.forEach(_disposeDecorationType);
+        this._smallRankDecorations.forEach(_disposeDecorationType);
+        this._meterDecorations.forEach(_disposeDecorationType);
+        if (this._comboDecoration) {
+            _disposeDecorationType(this._comboDecoration);
+        }
+        if (this._flashDecoration) {
+            _disposeDecorationType(this._flashDecoration);
         }
     }
 
@@ -191,152 +331,258 @@ export class RankDecorator {
     // no way to track horizontal scrolling afaik
     // this wouldn't be necessary if vscode allowed 'position: fixed'
     private _onDidChangeTextEditorVisibleRanges(event: vscode.TextEditorVisibleRangesChangeEvent) {
-        if (event.textEditor !== vscode.window.activeTextEditor) {
+        if (this._getEditors().indexOf(event.textEditor) < 0) {
+            return;
+        }
+        this._requestDraw();
+    }
+
+    private _onRankChange(event: RankChangeEvent) {
+        // show the small rank text shortly after a rank change
+        this._smallTextRankIndex = event.rankIndex;
+        if (this._smallTextTimer) {
+            clearTimeout(this._smallTextTimer);
+        }
+        if (RANK_TEXT_TIMEOUT_MS >= 0) {
+            this._smallTextTimer = setTimeout(() => {
+                this._smallTextRankIndex = -1;
+                this._requestDraw();
+            }, RANK_TEXT_TIMEOUT_MS);
+        }
+        this._requestDraw();
+    }
+
+    private _onFlash(event: FlashEvent) {
+        this._flash = event;
+        if (this._flashTimer) {
+            clearTimeout(this._flashTimer);
+        }
+        this._flashTimer = setTimeout(() => {
+            this._flash = undefined;
+            this._requestDraw();
+        }, FLASH_TIMEOUT_MS);
+        this._requestDraw();
+    }
+
+    // draw at most once per frame, however many events come in
+    private _requestDraw() {
+        if (this._drawTimer) {
             return;
         }
-        const score = this._scoreKeeper.score();
+        const wait = Math.max(this._lastDrawTime + FRAME_BUDGET_MS - new Date().valueOf(), 0);
+        this._drawTimer = setTimeout(() => {
+            this._drawTimer = undefined;
+            this._lastDrawTime = new Date().valueOf();
+            this._draw();
+        }, wait);
+    }
+
+    /**
+     * Get the editors to draw the meter in.
+     * Editors for documents that aren't scored, like output, logs or the original side of a diff, are skipped.
+     */
+    private _getEditors(): vscode.TextEditor[] {
+        const visible = vscode.window.visibleTextEditors.filter(editor =>
+            this.config.scoredSchemes.indexOf(editor.document.uri.scheme) >= 0 && editor.visibleRanges.length > 0);
+
+        switch (this.config.hudEditors) {
+            case 'allVisible':
+                return visible;
+
+            case 'group':
+                return visible.filter(editor => editor.viewColumn === this.config.hudGroup);
+
+            default:
+                // stay on the last editor while focus is somewhere without one, like the output panel
+                const active = vscode.window.activeTextEditor;
+                if (active && visible.indexOf(active) >= 0) {
+                    this._lastActiveEditor = active;
+                }
+                if (this._lastActiveEditor && visible.indexOf(this._lastActiveEditor) >= 0) {
+                    return [this._lastActiveEditor];
+                }
+                return [];
+        }
+    }
+
+    /**
+     * Get how far to shift text drawn on the line below the top, to line it up with the top line.
+     */
+    private _getTopMarginShift(editor: vscode.TextEditor): number {
+        const visibleRange = editor.visibleRanges[0];
+        if (visibleRange.start.line !== visibleRange.end.line) {
+            return -this.config.lineHeightPx;
+        }
+        return 0;
+    }
+
+    // a range on the line below the top, used to avoid weird overlapping problems with the top line
+    private _getSecondLineRange(editor: vscode.TextEditor): vscode.Range {
+        const pos = editor.visibleRanges[0].start.translate(1);
+        return new vscode.Range(pos, pos);
+    }
+
+    private _draw() {
+        const editors = this._getEditors();
         const rankIndex = this._scoreKeeper.rankIndex();
-        this._updateRankDecoration({ rankIndex });
-        this._updateMeterDecoration({ rankIndex, score });
+
+        if (rankIndex < 0) {
+            this._rankSlot.clear();
+            this._meterSlot.clear();
+        } else {
+            this._rankSlot.show(editors.map(editor => ({
+                editor,
+                decoration: this._rankDecorations[rankIndex],
+                ranges: editor.visibleRanges.map(range => ({ range })),
+            })));
+
+            // use [start, start] range to pretend this is a 'before' decoration and not 'after'
+            const meterDecoration = this._getMeterDecoration(rankIndex, this._scoreKeeper.score());
+            this._meterSlot.show(editors.map(editor => {
+                const start = editor.visibleRanges[0].start;
+                return { editor, decoration: meterDecoration, ranges: [{ range: new vscode.Range(start, start) }] };
+            }));
+        }
+
+        // use a slightly different range for the small rank text to avoid weird overlapping problems
+        // a flash message takes its place while it shows
+        const smallTextRankIndex = this._smallTextRankIndex;
+        const flash = this._flash;
+        if (flash) {
+            const color = flash.points < 0 ? METER_COLOR_START : METER_COLOR_END;
+            const width = this._rankFullWidth - (rankIndex >= 0 ? this._rankLetterPixelWidths[rankIndex] : 0);
+            const decoration = this._getFlashDecoration();
+            this._smallRankSlot.show(editors.map(editor => {
+                const top = this._rankTextTopMargin + this._getTopMarginShift(editor);
+                const renderOptions = {
+                    before: {
+                        contentText: flash.message,
+                        color: getCssColor(color),
+                        textDecoration: `${this._rankTextCss} width: ${width}px; top: ${top}px`,
+                    },
+                };
+                return { editor, decoration, ranges: [{ range: this._getSecondLineRange(editor), renderOptions }] };
+            }));
+        } else if (smallTextRankIndex < 0) {
+            this._smallRankSlot.clear();
+        } else {
+            this._smallRankSlot.show(editors.map(editor => ({
+                editor,
+                decoration: this._getSmallRankDecoration(smallTextRankIndex, this._getTopMarginShift(editor)),
+                ranges: [{ range: this._getSecondLineRange(editor) }],
+            })));
+        }
+
+        // the combo count, which is replaced by a paused label while scoring is paused
+        // share the line below the top with the small rank text, like it does to avoid overlapping problems
+        const paused = this._scoreKeeper.paused();
+        const combo = this._scoreKeeper.combo();
+        if (!paused && combo < MIN_DISPLAYED_COMBO) {
+            this._comboSlot.clear();
+        } else {
+            const color = rankIndex >= 0 ? this.config.ranks[rankIndex].color : METER_COLOR_END;
+            const decoration = this._getComboDecoration();
+            this._comboSlot.show(editors.map(editor => {
+                const top = this._comboTopMargin + this._getTopMarginShift(editor);
+                const renderOptions = {
+                    after: {
+                        contentText: paused ? 'paused' : `x${combo}`,
+                        color: getCssColor(color),
+                        textDecoration: `${this._comboCss} top: ${top}px;`,
+                    },
+                };
+                return { editor, decoration, ranges: [{ range: this._getSecondLineRange(editor), renderOptions }] };
+            }));
+        }
     }
 
     private _createRankDecoration(rankIndex: number): vscode.TextEditorDecorationType {
         const rank = this.config.ranks[rankIndex];
-        return vscode.window.createTextEditorDecorationType({
+        return _createDecorationType({
             before: {
                 textDecoration: this._rankLetterCss,
                 contentText: rank.text,
-                color: _getCssColor(rank.color),
+                color: getCssColor(rank.color),
             },
             rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
         });
     }
 
-    private _createSmallRankDecoration(rankIndex: number, shift: number): vscode.TextEditorDecorationType {
+    private _getSmallRankDecoration(rankIndex: number, shift: number): vscode.TextEditorDecorationType {
+        const key = `${rankIndex}:${shift}`;
+        let decoration = this._smallRankDecorations.get(key);
+        if (decoration) {
+            return decoration;
+        }
+
         const rank = this.config.ranks[rankIndex];
         const width = this._rankFullWidth - this._rankLetterPixelWidths[rankIndex];
         const top = this._rankTextTopMargin + shift;
-        const color = _getGradient(rank.color, {h: rank.color.h, s: rank.color.s, l: 0}, .3);
-        return vscode.window.createTextEditorDecorationType({
+        const color = getGradient(rank.color, {h: rank.color.h, s: rank.color.s, l: 0}, .3);
+        decoration = _createDecorationType({
             before: {
                 textDecoration: `${this._rankTextCss} width: ${width}px; top: ${top}px`,
                 contentText: rank.smallText,
-                color: _getCssColor(color),
+                color: getCssColor(color),
             },
             rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
         });
+        this._smallRankDecorations.set(key, decoration);
+        return decoration;
     }
 
-    private _createMeterDecoration(rankIndex: number, score: number): vscode.TextEditorDecorationType {
-        const ranks = this.config.ranks;
-        const rank = ranks[rankIndex];
+    // like the small rank text, next to the rank letter, but with the text and color set per range
+    // a range with render options gets its own css class, so all of the css has to be set per range too
+    private _getFlashDecoration(): vscode.TextEditorDecorationType {
+        if (!this._flashDecoration) {
+            this._flashDecoration = _createDecorationType({
+                rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+            });
+        }
+        return this._flashDecoration;
+    }
 
-        // calculate progress into next rank (0 to 1)
-        let nextThreshold;
-        if (rankIndex + 1 === ranks.length) {
-            nextThreshold = this.config.maxScore;
-        } else {
-            nextThreshold = ranks[rankIndex + 1].score;
+    private _getMeterDecoration(rankIndex: number, score: number): vscode.TextEditorDecorationType {
+        // calculate progress into next rank (0 to 1), rounded to a meter step
+        const progress = getRankProgress(this.config.ranks, this.config.maxScore, rankIndex, score);
+        const step = Math.round(Math.min(Math.max(progress, 0), 1) * METER_STEPS);
+        if (!this._meterDecorations[step]) {
+            this._meterDecorations[step] = this._createMeterDecoration(step / METER_STEPS);
         }
-        const currentThreshold = rank.score;
-        const progress = (score - currentThreshold) / (nextThreshold - currentThreshold);
-        
+        return this._meterDecorations[step];
+    }
+
+    private _createMeterDecoration(progress: number): vscode.TextEditorDecorationType {
         const width = progress * this._meterWidthPx;
         const rightMargin = this._rankFullWidth - width;
 
         // transition from red to orange
-        const color = _getGradient(METER_COLOR_START, METER_COLOR_END, progress);
-        const borderColor = _getGradient(color, {h: color.h, s: color.s, l: 100}, .5);
-    
-        return vscode.window.createTextEditorDecorationType({
+        const color = getGradient(METER_COLOR_START, METER_COLOR_END, progress);
+        const borderColor = getGradient(color, {h: color.h, s: color.s, l: 100}, .5);
+
+        return _createDecorationType({
             // this is on 'after' because weird overlapping happens if they're both on 'before'
             after: {
                 textDecoration: `${this._meterCss}
                     right: ${rightMargin}px;
-                    border-right: 4px solid ${_getCssColor(borderColor)};
+                    border-right: 4px solid ${getCssColor(borderColor)};
                     border-radius: 2px;`,
                 contentText: '',
-                backgroundColor: _getCssColor(color),
+                backgroundColor: getCssColor(color),
                 width: `${width}px`,
             },
             rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
         });
     }
 
-    private _updateRankDecoration(event: RankChangeEvent) {
-        if (event.rankIndex < 0) {
-            this._activeRankDecoration.dispose();
-            return;
-        }
-
-        const editor = vscode.window.activeTextEditor;
-        if (!editor) {
-            return;
-        }
-
-        // TODO these can be cached
-        // create decoration for the rank letter
-        const rankDecoration = this._createRankDecoration(event.rankIndex);
-
-        this._activeRankDecoration.replace(rankDecoration, editor, editor.visibleRanges);
-    }
-
-    private _updateSmallRankDecoration(event: RankChangeEvent) {
-        if (event.rankIndex < 0) {
-            this._activeSmallRankDecortion.dispose();
-            return;
-        }
-
-        const editor = vscode.window.activeTextEditor;
-        if (!editor) {
-            return;
-        }
-
-        // use a slightly different range for the small rank text to avoid weird overlapping problems
-        const visibleRange = editor.visibleRanges[0];
-        const pos = visibleRange.start.translate(1);
-        const range = new vscode.Range(pos, pos);
-        let topMarginShift;
-        if (visibleRange.start.line !== visibleRange.end.line) {
-            topMarginShift = -this.config.lineHeightPx;
-        } else {
-            topMarginShift = 0;
-        }
-
-        const smallRankDecoration = this._createSmallRankDecoration(event.rankIndex, topMarginShift);
-
-        // remove the small rank decoration shortly after a rank change
-        if (RANK_TEXT_TIMEOUT_MS >= 0) {
-            if (this._smallTextTimer) {
-                clearInterval(this._smallTextTimer);
-            }
-            this._smallTextTimer = setTimeout(() => {
-                this._activeSmallRankDecortion.dispose();
-            }, RANK_TEXT_TIMEOUT_MS);
-        }
-
-        this._activeSmallRankDecortion.replace(smallRankDecoration, editor, [range]);
-    }
-
-    private _updateMeterDecoration(event: ScoreChangeEvent) {
-        if (event.rankIndex < 0) {
-            this._activeMeterDecoration.dispose();
-            return;
-        }
-
-        const editor = vscode.window.activeTextEditor;
-        if (!editor) {
-            return;
+    // the combo text and color change all the time, so they are set per range instead of per type
+    // a range with render options gets its own css class, so all of the css has to be set per range too
+    private _getComboDecoration(): vscode.TextEditorDecorationType {
+        if (!this._comboDecoration) {
+            this._comboDecoration = _createDecorationType({
+                rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+            });
         }
-    
-        // TODO these might also be cached
-        // create decoration for the meter
-        const meterDecoration = this._createMeterDecoration(event.rankIndex, event.score);
-    
-        // use [start, start] range to pretend this is a 'before' decoration and not 'after'
-        const start = editor.visibleRanges[0].start;
-        const range = new vscode.Range(start, start);
-
-        this._activeMeterDecoration.replace(meterDecoration, editor, [range]);
+        return this._comboDecoration;
     }
-}
\ No newline at end of file
+}
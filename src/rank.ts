@@ -10,3 +10,103 @@ export interface Rank {
     score: number;     // minimum score to acquire this rank
     color: RankColor;  // css color
 }
+
+
+export function getCssColor(color: RankColor): string {
+    return `hsl(${Math.round(color.h)}, ${Math.round(color.s)}\%, ${Math.round(color.l)}\%)`;
+}
+
+
+/**
+ * Get a color that is `progress`% between `start` and `end`.
+ * 
+ * @param start an hsl color
+ * @param end an hsl color
+ * @param progress the percentage between start and end to get
+ */
+export function getGradient(start: RankColor, end: RankColor, progress: number): RankColor {
+    return {
+        h: (start.h + progress * (end.h - start.h)) % 360,
+        s: start.s + progress * (end.s - start.s),
+        l: start.l + progress * (end.l - start.l)
+    };
+}
+
+
+/**
+ * Get how far a score is from the rank's threshold to the next one, from 0 to 1.
+ *
+ * @param ranks the ranks sorted from lowest to highest score threshold
+ * @param maxScore the max score that can be achieved
+ * @param rankIndex the index of the rank the score is in. -1 means no ranking
+ * @param score the current score
+ */
+export function getRankProgress(ranks: Rank[], maxScore: number, rankIndex: number, score: number): number {
+    const currentThreshold = rankIndex >= 0 ? ranks[rankIndex].score : 0;
+    const nextThreshold = rankIndex + 1 < ranks.length ? ranks[rankIndex + 1].score : maxScore;
+    return (score - currentThreshold) / (nextThreshold - currentThreshold);
+}
+
+
+/**
+ * Check a user-defined rank ladder for problems.
+ * Returns a list of human-readable error messages. An empty list means the ladder is usable.
+ *
+ * @param ranks the ranks from the settings, sorted from lowest to highest score threshold
+ * @param maxScore the max score that can be achieved
+ */
+export function validateRanks(ranks: any, maxScore: any): string[] {
+    const errors: string[] = [];
+
+    if (typeof maxScore !== 'number' || !isFinite(maxScore) || maxScore <= 0) {
+        errors.push(`maxScore must be a positive number, got ${JSON.stringify(maxScore)}.`);
+    }
+
+    if (!Array.isArray(ranks) || ranks.length === 0) {
+        errors.push('ranks must be a non-empty array.');
+        return errors;
+    }
+
+    ranks.forEach((rank: any, i: number) => {
+        const name = `ranks[${i}]`;
+        if (typeof rank !== 'object' || rank === null) {
+            errors.push(`${name} must be an object.`);
+            return;
+        }
+        if (typeof rank.text !== 'string' || rank.text.length === 0) {
+            errors.push(`${name}.text must be a non-empty string.`);
+        }
+        if (typeof rank.smallText !== 'string') {
+            errors.push(`${name}.smallText must be a string.`);
+        }
+        if (typeof rank.score !== 'number' || !isFinite(rank.score) || rank.score < 0) {
+            errors.push(`${name}.score must be a number of at least 0.`);
+        } else {
+            if (typeof maxScore === 'number' && rank.score >= maxScore) {
+                errors.push(`${name}.score (${rank.score}) must be below maxScore (${maxScore}).`);
+            }
+            const prev = ranks[i - 1];
+            if (i > 0 && prev && typeof prev.score === 'number' && rank.score <= prev.score) {
+                errors.push(`${name}.score (${rank.score}) must be greater than the score of ` +
+                    `ranks[${i - 1}] (${prev.score}). Ranks must be sorted from lowest to highest.`);
+            }
+        }
+        _validateColor(rank.color, `${name}.color`, errors);
+    });
+
+    return errors;
+}
+
+function _validateColor(color: any, name: string, errors: string[]) {
+    if (typeof color !== 'object' || color === null) {
+        errors.push(`${name} must be an object with h, s and l values.`);
+        return;
+    }
+    const limits: [keyof RankColor, number][] = [['h', 360], ['s', 100], ['l', 100]];
+    for (let [key, max] of limits) {
+        const value = color[key];
+        if (typeof value !== 'number' || !isFinite(value) || value < 0 || value > max) {
+            errors.push(`${name}.${key} must be a number from 0 to ${max}, got ${JSON.stringify(value)}.`);
+        }
+    }
+}
@@ -0,0 +1,27 @@
+import { StyleMeterConfig } from './config';
+import { ScoreKeeper } from './score-keeper';
+import { RankDecorator } from './rank-decorator';
+import { StatusBarRenderer } from './status-bar-renderer';
+
+
+/**
+ * Something that shows the style meter. Renderers subscribe to score keeper events themselves.
+ */
+export interface StyleRenderer {
+    dispose(): void;
+}
+
+
+/**
+ * Create the renderers selected by the renderer setting.
+ */
+export function createRenderers(config: StyleMeterConfig, scoreKeeper: ScoreKeeper): StyleRenderer[] {
+    const renderers: StyleRenderer[] = [];
+    if (config.renderer === 'decoration' || config.renderer === 'both') {
+        renderers.push(new RankDecorator(config, scoreKeeper));
+    }
+    if (config.renderer === 'statusBar' || config.renderer === 'both') {
+        renderers.push(new StatusBarRenderer(config, scoreKeeper));
+    }
+    return renderers;
+}
@@ -0,0 +1,174 @@
+/*
+Replays an edit log recorded with `Style Meter: Record Edits` through the scoring engine,
+to compare difficulty settings against real typing sessions without VSCode.
+
+    npm run replay -- <edit log> [--settings <settings.json>] [--difficulty <name>] [--interval <seconds>] [--json]
+
+The settings file can be a VSCode settings.json, using only its `styleMeter.*` settings,
+or an object of style meter config values.
+*/
+
+import * as fs from 'fs';
+import { StyleMeterConfig, defaultStyleMeterConfig } from './config';
+import { DIFFICULTY_PRESETS, Difficulty } from './difficulty';
+import { ReplayStats, parseEditLog, replayEditLog } from './edit-log';
+import { validateRanks } from './rank';
+
+
+const USAGE = 'usage: npm run replay -- <edit log> [--settings <settings.json>] [--difficulty <name>] ' +
+    '[--interval <seconds>] [--json]';
+
+const DEFAULT_INTERVAL_S = 10;
+
+
+interface ReplayArgs {
+    logPath: string;
+    settingsPath?: string;
+    difficulty?: string;
+    intervalS: number;
+    json: boolean;
+}
+
+
+function main(argv: string[]): number {
+    let args: ReplayArgs;
+    let config: StyleMeterConfig;
+    let text: string;
+    try {
+        args = parseArgs(argv);
+        config = readConfig(args);
+        text = fs.readFileSync(args.logPath, 'utf8');
+    } catch (err) {
+        console.error(err.message);
+        console.error(USAGE);
+        return 1;
+    }
+
+    const stats = replayEditLog(parseEditLog(text), config, args.intervalS * 1000);
+    if (args.json) {
+        console.log(JSON.stringify(stats, undefined, 2));
+    } else {
+        printStats(stats, config);
+    }
+    return 0;
+}
+
+
+function parseArgs(argv: string[]): ReplayArgs {
+    const positional: string[] = [];
+    const args: Partial<ReplayArgs> = { intervalS: DEFAULT_INTERVAL_S, json: false };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => {
+            if (i + 1 >= argv.length) {
+                throw new Error(`${arg} needs a value`);
+            }
+            return argv[++i];
+        };
+        switch (arg) {
+            case '--settings':
+                args.settingsPath = value();
+                break;
+            case '--difficulty':
+                args.difficulty = value();
+                break;
+            case '--interval':
+                args.intervalS = Number(value());
+                if (!(args.intervalS! > 0)) {
+                    throw new Error('--interval must be a positive number of seconds');
+                }
+                break;
+            case '--json':
+                args.json = true;
+                break;
+            default:
+                if (arg.startsWith('--')) {
+                    throw new Error(`unknown option ${arg}`);
+                }
+                positional.push(arg);
+        }
+    }
+    if (positional.length !== 1) {
+        throw new Error('expected one edit log');
+    }
+    args.logPath = positional[0];
+    return args as ReplayArgs;
+}
+
+
+/**
+ * Build the config the same way the extension does: defaults, then the difficulty preset, then settings.
+ */
+function readConfig(args: ReplayArgs): StyleMeterConfig {
+    let settings: { [key: string]: any } = {};
+    if (args.settingsPath) {
+        const input = JSON.parse(fs.readFileSync(args.settingsPath, 'utf8'));
+        for (let key of Object.keys(input)) {
+            if (key.startsWith('styleMeter.')) {
+                settings[key.slice('styleMeter.'.length)] = input[key];
+            } else if (!key.includes('.')) {
+                settings[key] = input[key];
+            }
+        }
+    }
+
+    const c = JSON.parse(JSON.stringify(defaultStyleMeterConfig));
+    const difficulty = args.difficulty || settings.difficulty || c.difficulty;
+    if (!DIFFICULTY_PRESETS[difficulty as Difficulty]) {
+        throw new Error(`unknown difficulty ${difficulty}. Pick one of: ${Object.keys(DIFFICULTY_PRESETS).join(', ')}`);
+    }
+    Object.assign(c, DIFFICULTY_PRESETS[difficulty as Difficulty]);
+
+    const sourceWeights = Object.assign(c.sourceWeights, settings.sourceWeights);
+    Object.assign(c, settings, { difficulty, sourceWeights });
+
+    const errors = validateRanks(c.ranks, c.maxScore);
+    if (errors.length > 0) {
+        throw new Error(`invalid rank settings. ${errors.join(' ')}`);
+    }
+    return c;
+}
+
+
+function printStats(stats: ReplayStats, config: StyleMeterConfig) {
+    const rankName = (rankIndex: number) => rankIndex >= 0 ? config.ranks[rankIndex].text : '-';
+
+    console.log(`Replayed ${stats.edits} edits over ${formatTime(stats.durationMs)} ` +
+        `on ${config.difficulty} difficulty`);
+    console.log(`Peak score: ${stats.peakScore.toFixed(1)} / ${config.maxScore}, ` +
+        `peak rank: ${rankName(stats.peakRankIndex)}, best combo: ${stats.bestCombo}`);
+
+    console.log('\nRank      Time   Share  First reached');
+    const total = stats.timeInRankMs.reduce((sum, ms) => sum + ms, 0) || 1;
+    stats.timeInRankMs.forEach((ms, i) => {
+        const firstReached = stats.firstReachedMs[i];
+        console.log(`${pad(rankName(i - 1), 4)}  ${pad(formatTime(ms), 8, true)}  ` +
+            `${pad((ms / total * 100).toFixed(1), 5, true)}%  ` +
+            `${firstReached !== undefined ? formatTime(firstReached) : 'never'}`);
+    });
+
+    console.log('\n    Time  Rank  Score');
+    for (let sample of stats.samples) {
+        console.log(`${pad(formatTime(sample.t), 8, true)}  ${pad(rankName(sample.rankIndex), 4)}  ` +
+            `${sample.score.toFixed(1)}`);
+    }
+}
+
+
+function formatTime(ms: number): string {
+    const totalS = Math.floor(ms / 1000);
+    const h = Math.floor(totalS / 3600);
+    const m = Math.floor(totalS / 60) % 60;
+    const s = totalS % 60;
+    const mmss = `${m < 10 && h > 0 ? '0' : ''}${m}:${s < 10 ? '0' : ''}${s}`;
+    return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+
+function pad(text: string, width: number, left = false): string {
+    const padding = ' '.repeat(Math.max(width - text.length, 0));
+    return left ? padding + text : text + padding;
+}
+
+
+process.exitCode = main(process.argv.slice(2));
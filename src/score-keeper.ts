@@ -1,80 +1,69 @@
 import * as vscode from 'vscode';
 import { StyleMeterConfig } from './config';
+import { ScoringSource, StyleAwardEvent } from './sources';
+import {
+    ComboChangeEvent, PauseReason, RankChangeEvent, ScoreChangeEvent, ScoringEngine
+} from './scoring-engine';
 
+export { ComboChangeEvent, PauseReason, RankChangeEvent, ScoreChangeEvent } from './scoring-engine';
 
-/**
- * The period at which style degradation takes place.
- * This has no real effect on difficulty.
- * Higher values update the meter more often but worsen performance.
- */
-const STYLE_DEGRADE_PERIOD_MS = 500;
-
-/**
- * The rate of style degradation in points/s^2
- */
-const STYLE_DEGRADE_ACC_PPS2 = 2;
-
-/**
- * The max style point reward for content changes per event.
- */
-const MAX_CHANGE_REWARD = 5;
 
-/**
- * How many times more difficult it is to gain points at the highest rank than without any rank.
- */
-const DIFFICULTY_FACTOR = 4;
+export interface PauseChangeEvent {
+    paused: boolean;
+}
 
 
-export interface ScoreChangeEvent {
-    rankIndex: number;
-    score: number;
+export interface FlashEvent {
+    message: string;
+    points: number; // the points awarded with the message. Negative for a loss
 }
 
 
-export interface RankChangeEvent {
-    rankIndex: number;
+/**
+ * A score and rank that can be followed, like the music follows the score keeper.
+ */
+export interface ScoreFeed {
+    readonly onScoreChange: vscode.Event<ScoreChangeEvent>;
+    readonly onRankChange: vscode.Event<RankChangeEvent>;
+    score(): number;
+    rankIndex(): number;
 }
 
 
-export class ScoreKeeper {
+/**
+ * Runs the scoring engine in the editor, on a real clock with a decay timer, and turns its changes into events.
+ */
+export class ScoreKeeper implements ScoreFeed {
     public _onScoreChange = new vscode.EventEmitter<ScoreChangeEvent>();
     public _onRankChange = new vscode.EventEmitter<RankChangeEvent>();
+    public _onComboChange = new vscode.EventEmitter<ComboChangeEvent>();
+    public _onPauseChange = new vscode.EventEmitter<PauseChangeEvent>();
+    public _onFlash = new vscode.EventEmitter<FlashEvent>();
 
-    // index into the ranks array. -1 means no ranking (worse than D)
-    private _rankIndex = -1;
-
-    // score to determine the current ranking
-    private _score = 0;
+    private _engine: ScoringEngine;
 
     // timer used for style degradation
     private _timer: NodeJS.Timer;
 
-    /**
-     * The last time style points went up
-     */
-    private _lastUpdateTime = 0;
-
     private _disposables: vscode.Disposable[] = [
         this._onScoreChange,
-        this._onRankChange
+        this._onRankChange,
+        this._onComboChange,
+        this._onPauseChange,
+        this._onFlash,
     ];
 
-    constructor(public readonly config: StyleMeterConfig) {
-        /**
-         * Style degradation.
-         * Reduce style points periodically at an amount proportional to inactivity.
-         */
-        this._timer = setInterval(() => {
-            let inactiveTime = new Date().valueOf() - this._lastUpdateTime;
-            if (inactiveTime > 100000) {
-                inactiveTime = 100000;
-            }
-            const acc_ppms2 = STYLE_DEGRADE_ACC_PPS2 / 1e6;
-            const penalty = inactiveTime * STYLE_DEGRADE_PERIOD_MS * acc_ppms2;
-            this._changeScore(-penalty * config.degradationFactor);
-        }, STYLE_DEGRADE_PERIOD_MS);
+    constructor(config: StyleMeterConfig) {
+        this._engine = new ScoringEngine(config, undefined, {
+            onScoreChange: event => this._onScoreChange.fire(event),
+            onRankChange: event => this._onRankChange.fire(event),
+            onComboChange: event => this._onComboChange.fire(event),
+        });
+        this._timer = this._startDecay();
+    }
 
-        vscode.workspace.onDidChangeTextDocument(this.onDidChangeTextDocument, this, this._disposables);
+    get config(): StyleMeterConfig {
+        return this._engine.config;
     }
 
     get onScoreChange() {
@@ -85,84 +74,101 @@ export class ScoreKeeper {
         return this._onRankChange.event;
     }
 
-    // increment score whenever they type
-    public onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent) {
-        /*
-        Reward changes proportional to the size of the change, up to a point.
-        This prevents copy-paste from being overpowered.
-        Also deleting will have no effect.
-        */
-        const changeSize = this._getChangeSize(event.contentChanges);
-        let reward = changeSize;
-        if (reward > MAX_CHANGE_REWARD) {
-            reward = MAX_CHANGE_REWARD;
-        }
+    get onComboChange() {
+        return this._onComboChange.event;
+    }
 
-        // make it harder to earn points on higher ranks
-        const rankProgress = (this._rankIndex + 1) / this.config.ranks.length;
-        reward /= (rankProgress * (DIFFICULTY_FACTOR - 1) + 1);
+    get onPauseChange() {
+        return this._onPauseChange.event;
+    }
 
-        this._changeScore(reward * this.config.gainFactor);
+    /**
+     * Fires for awards that come with a message to show, like 'Tests passed!'.
+     */
+    get onFlash() {
+        return this._onFlash.event;
+    }
 
-        this._lastUpdateTime = new Date().valueOf();
+    /**
+     * Collect style awards from a scoring source until the returned disposable or the source is disposed.
+     */
+    public addSource(source: ScoringSource): vscode.Disposable {
+        return source.onAward(this.onAward, this);
+    }
+
+    /**
+     * Switch to a new config without losing the score.
+     */
+    public updateConfig(config: StyleMeterConfig) {
+        const prevConfig = this.config;
+        this._engine.updateConfig(config);
+
+        if (config.degradePeriodMs !== prevConfig.degradePeriodMs) {
+            clearInterval(this._timer);
+            this._timer = this._startDecay();
+        }
+    }
+
+    public onAward(event: StyleAwardEvent) {
+        if (this.paused()) {
+            return;
+        }
+        this._engine.award(event);
+        if (event.message) {
+            this._onFlash.fire({ message: event.message, points: event.points });
+        }
     }
 
     public score(): number {
-        return this._score;
+        return this._engine.score();
     }
 
     public rankIndex(): number {
-        return this._rankIndex;
+        return this._engine.rankIndex();
     }
 
-    public dispose() {
-        for (let d of this._disposables) {
-            d.dispose();
-        }
-        clearInterval(this._timer);
+    public combo(): number {
+        return this._engine.combo();
     }
 
-    private _changeScore(amount: number) {
-        // update score value
-        const prevScore = this._score;
-        this._score += amount;
-        if (this._score < 0) {
-            this._score = 0;
-        } else if (this._score > this.config.maxScore) {
-            this._score = this.config.maxScore;
-        }
-
-        if (this._score === prevScore) {
-            return;
-        }
+    public bestCombo(): number {
+        return this._engine.bestCombo();
+    }
 
-        // update rank index
-        const prevRankIndex = this._rankIndex;
-        this._rankIndex = this._getRankIndex(this._score);
-        
-        // call on score change listeners
-        this._onScoreChange.fire({ rankIndex: this._rankIndex, score: this._score });
+    public paused(): boolean {
+        return this._engine.paused();
+    }
 
-        // if the rank changed, call on rank change listeners
-        if (this._rankIndex !== prevRankIndex) {
-            this._onRankChange.fire({ rankIndex: this._rankIndex });
+    /**
+     * Freeze scoring and decay until every pause reason is resumed.
+     */
+    public pause(reason: PauseReason) {
+        if (this._engine.pause(reason)) {
+            this._onPauseChange.fire({ paused: true });
         }
     }
 
-    private _getRankIndex(score: number): number {
-        for (let i = this.config.ranks.length - 1; i >= 0; i--) {
-            if (score > this.config.ranks[i].score) {
-                return i;
-            }
+    public resume(reason: PauseReason) {
+        if (this._engine.resume(reason)) {
+            this._onPauseChange.fire({ paused: false });
         }
-        return -1; // -1 represents no style ranking
     }
 
-    private _getChangeSize(contentChanges: vscode.TextDocumentContentChangeEvent[]) {
-        let size = 0;
-        for (let change of contentChanges) {
-            size += change.text.length;
+    /**
+     * Drop the score, rank and combo back to nothing.
+     */
+    public reset() {
+        this._engine.reset();
+    }
+
+    public dispose() {
+        for (let d of this._disposables) {
+            d.dispose();
         }
-        return size;
+        clearInterval(this._timer);
     }
-}
\ No newline at end of file
+
+    private _startDecay(): NodeJS.Timer {
+        return setInterval(() => this._engine.tick(), this.config.degradePeriodMs);
+    }
+}
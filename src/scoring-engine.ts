@@ -0,0 +1,275 @@
+import { StyleMeterConfig } from './config';
+import { StyleAwardEvent } from './sources/scoring-source';
+import { getDecayPenalty } from './decay';
+
+
+export interface ScoreChangeEvent {
+    rankIndex: number;
+    score: number;
+}
+
+
+export interface RankChangeEvent {
+    rankIndex: number;
+}
+
+
+export interface ComboChangeEvent {
+    combo: number;     // consecutive hits in the current combo. 0 means the combo was broken
+    bestCombo: number; // the highest combo reached since the score keeper was created
+}
+
+
+/**
+ * Why scoring is paused. Scoring resumes once every reason is gone.
+ */
+export type PauseReason = 'manual' | 'unfocused' | 'debugging';
+
+
+/**
+ * Where the scoring engine gets the time from, so it can run faster or slower than real time.
+ */
+export interface Clock {
+    now(): number;
+}
+
+
+export const systemClock: Clock = {
+    now: () => new Date().valueOf(),
+};
+
+
+/**
+ * Called when the engine's state changes. Every callback is optional.
+ */
+export interface ScoringEngineListener {
+    onScoreChange?(event: ScoreChangeEvent): void;
+    onRankChange?(event: RankChangeEvent): void;
+    onComboChange?(event: ComboChangeEvent): void;
+}
+
+
+/**
+ * The scoring rules, without anything from VSCode or any timers.
+ * Call `award` for style gained and `tick` once per degradation period.
+ * This runs in the editor through the score keeper, and outside it for replaying recorded sessions.
+ */
+export class ScoringEngine {
+    // index into the ranks array. -1 means no ranking (worse than D)
+    private _rankIndex = -1;
+
+    // score to determine the current ranking
+    private _score = 0;
+
+    /**
+     * The last time style points went up
+     */
+    private _lastUpdateTime = 0;
+
+    // number of style gains in a row, each within the combo window of the last
+    private _combo = 0;
+    private _bestCombo = 0;
+
+    /**
+     * The last time the combo grew
+     */
+    private _lastComboTime = 0;
+
+    // reasons scoring and decay are frozen, and when the freeze started
+    private _pauseReasons = new Set<PauseReason>();
+    private _pauseStartTime = 0;
+
+    constructor(public config: StyleMeterConfig, private readonly _clock: Clock = systemClock,
+            private readonly _listener: ScoringEngineListener = {}) {
+    }
+
+    /**
+     * Switch to a new config without losing the score.
+     */
+    public updateConfig(config: StyleMeterConfig) {
+        this.config = config;
+
+        // the ranks or max score may have moved under the current score
+        const prevRankIndex = this._rankIndex;
+        this._score = Math.min(this._score, config.maxScore);
+        this._rankIndex = this._getRankIndex(this._score);
+        this._fireScoreChange(prevRankIndex);
+    }
+
+    public award(event: StyleAwardEvent) {
+        if (this.paused()) {
+            return;
+        }
+
+        // fall to the very bottom of the rank below
+        if (event.dropRank && this._rankIndex >= 0) {
+            this._changeScore(this.config.ranks[this._rankIndex].score - this._score);
+        }
+
+        // losing style is not affected by rank or gain factor
+        if (event.points < 0) {
+            this._changeScore(event.points);
+            return;
+        }
+
+        // make it harder to earn points on higher ranks
+        const rankProgress = (this._rankIndex + 1) / this.config.ranks.length;
+        let reward = event.points / (rankProgress * (this.config.difficultyFactor - 1) + 1);
+
+        // keep the combo going and reward it
+        const now = this._clock.now();
+        if (reward > 0) {
+            this._hitCombo(now);
+            reward *= this._getComboMultiplier();
+        }
+
+        this._changeScore(reward * this.config.gainFactor);
+
+        this._lastUpdateTime = now;
+    }
+
+    /**
+     * Style degradation.
+     * Reduce style points following the decay curve for the time spent inactive. Call once per degradation period.
+     */
+    public tick() {
+        if (this.paused()) {
+            return;
+        }
+        const now = this._clock.now();
+
+        // break the combo after a long enough pause
+        if (this._combo > 0 && now - this._lastComboTime > this.config.comboWindowMs) {
+            this._combo = 0;
+            this._fireComboChange();
+        }
+
+        const penalty = getDecayPenalty(this.config, now - this._lastUpdateTime, this._score);
+        this._changeScore(-penalty);
+    }
+
+    public score(): number {
+        return this._score;
+    }
+
+    public rankIndex(): number {
+        return this._rankIndex;
+    }
+
+    public combo(): number {
+        return this._combo;
+    }
+
+    public bestCombo(): number {
+        return this._bestCombo;
+    }
+
+    public paused(): boolean {
+        return this._pauseReasons.size > 0;
+    }
+
+    /**
+     * Freeze scoring and decay until every pause reason is resumed.
+     * Returns true if this started a pause.
+     */
+    public pause(reason: PauseReason): boolean {
+        const wasPaused = this.paused();
+        this._pauseReasons.add(reason);
+        if (wasPaused) {
+            return false;
+        }
+        this._pauseStartTime = this._clock.now();
+        return true;
+    }
+
+    /**
+     * Returns true if this ended a pause.
+     */
+    public resume(reason: PauseReason): boolean {
+        if (!this._pauseReasons.delete(reason) || this.paused()) {
+            return false;
+        }
+
+        // pretend the pause never happened, so it doesn't count as inactivity or break the combo
+        const pausedTime = this._clock.now() - this._pauseStartTime;
+        this._lastUpdateTime += pausedTime;
+        this._lastComboTime += pausedTime;
+        return true;
+    }
+
+    /**
+     * Drop the score, rank and combo back to nothing.
+     */
+    public reset() {
+        this._changeScore(-this._score);
+        if (this._combo > 0) {
+            this._combo = 0;
+            this._fireComboChange();
+        }
+    }
+
+    private _changeScore(amount: number) {
+        // update score value
+        const prevScore = this._score;
+        this._score += amount;
+        if (this._score < 0) {
+            this._score = 0;
+        } else if (this._score > this.config.maxScore) {
+            this._score = this.config.maxScore;
+        }
+
+        if (this._score === prevScore) {
+            return;
+        }
+
+        // update rank index
+        const prevRankIndex = this._rankIndex;
+        this._rankIndex = this._getRankIndex(this._score);
+        this._fireScoreChange(prevRankIndex);
+    }
+
+    private _fireScoreChange(prevRankIndex: number) {
+        // call on score change listeners
+        if (this._listener.onScoreChange) {
+            this._listener.onScoreChange({ rankIndex: this._rankIndex, score: this._score });
+        }
+
+        // if the rank changed, call on rank change listeners
+        if (this._rankIndex !== prevRankIndex && this._listener.onRankChange) {
+            this._listener.onRankChange({ rankIndex: this._rankIndex });
+        }
+    }
+
+    private _hitCombo(now: number) {
+        if (now - this._lastComboTime > this.config.comboWindowMs) {
+            this._combo = 1;
+        } else {
+            this._combo++;
+        }
+        if (this._combo > this._bestCombo) {
+            this._bestCombo = this._combo;
+        }
+        this._lastComboTime = now;
+        this._fireComboChange();
+    }
+
+    private _getComboMultiplier(): number {
+        const multiplier = 1 + (this._combo - 1) * this.config.comboMultiplierStep;
+        return Math.min(multiplier, this.config.maxComboMultiplier);
+    }
+
+    private _fireComboChange() {
+        if (this._listener.onComboChange) {
+            this._listener.onComboChange({ combo: this._combo, bestCombo: this._bestCombo });
+        }
+    }
+
+    private _getRankIndex(score: number): number {
+        for (let i = this.config.ranks.length - 1; i >= 0; i--) {
+            if (score > this.config.ranks[i].score) {
+                return i;
+            }
+        }
+        return -1; // -1 represents no style ranking
+    }
+}
@@ -0,0 +1,344 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as os from 'os';
+import * as path from 'path';
+import * as url from 'url';
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from './config';
+import { SessionRecord } from './session';
+
+
+/**
+ * The globalState key that summaries waiting to be posted are stored under.
+ */
+const QUEUE_KEY = 'styleMeter.exportQueue';
+
+/**
+ * The max number of summaries waiting to be posted. The oldest are dropped first.
+ */
+const MAX_QUEUED = 100;
+
+/**
+ * How long to wait before each retry of a failed post.
+ */
+const RETRY_DELAYS_MS = [1000, 5000];
+
+/**
+ * How often to try posting the queue again while the endpoint is unreachable.
+ */
+const QUEUE_RETRY_PERIOD_MS = 300000;
+
+const POST_TIMEOUT_MS = 10000;
+
+/**
+ * Client error statuses that can pass, like a timeout or rate limit, so the post is tried again.
+ * Any other client error drops the post.
+ */
+const RETRY_STATUSES = [408, 429];
+
+/**
+ * The longest gap between samples that counts as active. Longer gaps are cut to this.
+ */
+const MAX_ACTIVE_GAP_MS = 10000;
+
+/**
+ * The file that every session summary gets a row in.
+ */
+const CSV_FILENAME = 'style-meter-sessions.csv';
+
+const CSV_COLUMNS = [
+    'id', 'user', 'start', 'end', 'workspace', 'languages', 'peakRank', 'peakScore', 'averageScore', 'activeMinutes',
+    'timeInRankMs',
+];
+
+
+/**
+ * The numbers exported for a session. Exporting a session again, like on demand and then when it ends,
+ * keeps the same id.
+ */
+export interface SessionSummary {
+    id: string;
+    user: string;
+    start: string;     // ISO date
+    end: string;       // ISO date
+    workspace: string;
+    languages: string[];
+    peakRank: string;  // the peak rank text, or '' if no rank was reached
+    peakScore: number;
+    averageScore: number;
+    activeMinutes: number;
+
+    /**
+     * Time in ms spent in each rank, by rank text.
+     */
+    timeInRankMs: { [rank: string]: number };
+}
+
+
+interface QueuedPost {
+    url: string;
+    summary: SessionSummary;
+}
+
+
+/**
+ * What happened to a post of a summary.
+ *
+ * - `sent`: the server accepted it
+ * - `queued`: the server couldn't be reached or had an error, so it waits in the queue for the next try
+ * - `dropped`: the server rejected it, so it was taken off the queue
+ */
+export type PostResult = 'sent' | 'queued' | 'dropped';
+
+
+export interface ExportResult {
+    /**
+     * The folder written to, if any.
+     */
+    folder?: string;
+
+    /**
+     * What happened to the post to the export URL, if there is one.
+     */
+    post?: PostResult;
+}
+
+
+interface PostOutcome {
+    post: QueuedPost;
+    result: PostResult;
+}
+
+
+/**
+ * Summarize a session. The average score and active time come from the session's samples,
+ * where time with a score above 0 counts as active.
+ */
+export function summarizeSession(session: SessionRecord): SessionSummary {
+    let totalMs = 0;
+    let activeMs = 0;
+    let scoreMs = 0;
+    for (let i = 0; i + 1 < session.samples.length; i++) {
+        const sample = session.samples[i];
+        const gap = session.samples[i + 1].time - sample.time;
+        totalMs += gap;
+        scoreMs += sample.score * gap;
+        if (sample.score > 0) {
+            activeMs += Math.min(gap, MAX_ACTIVE_GAP_MS);
+        }
+    }
+
+    return {
+        id: session.id,
+        user: _getUser(),
+        start: new Date(session.start).toISOString(),
+        end: new Date(session.end).toISOString(),
+        workspace: session.workspace,
+        languages: session.languages,
+        peakRank: session.peakRankIndex >= 0 ? session.ranks[session.peakRankIndex] : '',
+        peakScore: _round(session.peakScore),
+        averageScore: _round(totalMs > 0 ? scoreMs / totalMs : 0),
+        activeMinutes: _round(activeMs / 60000),
+        timeInRankMs: session.timeInRankMs,
+    };
+}
+
+
+/**
+ * Write a summary to `<id>.json` in a folder, and add or replace its row in the folder's CSV file.
+ * Throws if the files can't be written.
+ */
+export function writeSessionSummary(folder: string, summary: SessionSummary) {
+    if (!fs.existsSync(folder)) {
+        fs.mkdirSync(folder);
+    }
+    fs.writeFileSync(path.join(folder, `style-meter-${summary.id}.json`), JSON.stringify(summary, undefined, 2));
+
+    const csvPath = path.join(folder, CSV_FILENAME);
+    const lines = fs.existsSync(csvPath) ? fs.readFileSync(csvPath, 'utf8').split(/\r?\n/).filter(line => line) : [];
+    const rows = lines.slice(1).filter(line => !line.startsWith(_csvField(summary.id) + ','));
+    rows.push(_csvRow(summary));
+    fs.writeFileSync(csvPath, [CSV_COLUMNS.join(',')].concat(rows).join('\n') + '\n');
+}
+
+
+/**
+ * Exports session summaries to the export folder, and posts them to the export URL.
+ * Posts that fail are queued in global state and tried again later, even from another VSCode session.
+ */
+export class SessionExporter {
+    // the flush running now, which the next flush waits for
+    private _flushing: Promise<PostOutcome[]> = Promise.resolve([]);
+    private _timer: NodeJS.Timer;
+
+    constructor(private readonly _memento: vscode.Memento) {
+        this._timer = setInterval(() => this.flush(), QUEUE_RETRY_PERIOD_MS);
+        this.flush();
+    }
+
+    /**
+     * Export a session wherever the config says to.
+     *
+     * @param folder the folder to write to instead of the export folder setting
+     * @param send whether to post right away. Otherwise the post waits in the queue for the next flush,
+     *   like when VSCode is closing and can't wait for a slow server.
+     */
+    public async export(session: SessionRecord, config: StyleMeterConfig, folder = config.exportFolder,
+            send = true): Promise<ExportResult> {
+        const summary = summarizeSession(session);
+        const result: ExportResult = {};
+        if (folder) {
+            try {
+                writeSessionSummary(folder, summary);
+                result.folder = folder;
+            } catch (err) {
+                vscode.window.showErrorMessage(
+                    `Style Meter: could not export the session to ${folder}. ${err.message}`);
+            }
+        }
+        if (config.exportUrl) {
+            const post = { url: config.exportUrl, summary };
+            await this._enqueue(post);
+            result.post = 'queued';
+            if (send) {
+                // a flush already running may pick up the post before the new one does
+                const running = this._flushing;
+                const outcomes = (await this.flush()).concat(await running);
+                const outcome = outcomes.find(o => _isSamePost(o.post, post) && o.post.summary.end === summary.end);
+                if (outcome) {
+                    result.post = outcome.result;
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Post every queued summary, oldest first, stopping at the first that can't be sent.
+     * Waits for a flush already running, so summaries queued during it are tried too.
+     *
+     * @returns what happened to each summary tried
+     */
+    public flush(): Promise<PostOutcome[]> {
+        this._flushing = this._flushing.then(() => this._flushQueue(), () => this._flushQueue());
+        return this._flushing;
+    }
+
+    public dispose() {
+        clearInterval(this._timer);
+    }
+
+    private async _flushQueue(): Promise<PostOutcome[]> {
+        const outcomes: PostOutcome[] = [];
+        let queue = this._loadQueue();
+        while (queue.length > 0) {
+            const post = queue[0];
+            const result = await this._postWithRetries(post);
+            outcomes.push({ post, result });
+            if (result === 'queued') {
+                break;
+            }
+
+            // the queue may have changed while posting
+            queue = this._loadQueue().filter(p => !_isSamePost(p, post) || p.summary.end !== post.summary.end);
+            await this._memento.update(QUEUE_KEY, queue);
+        }
+        return outcomes;
+    }
+
+    private _loadQueue(): QueuedPost[] {
+        return this._memento.get<QueuedPost[]>(QUEUE_KEY, []);
+    }
+
+    // a newer summary of the same session replaces one still waiting
+    private _enqueue(post: QueuedPost): Thenable<void> {
+        const queue = this._loadQueue().filter(p => !_isSamePost(p, post));
+        queue.push(post);
+        return this._memento.update(QUEUE_KEY, queue.slice(-MAX_QUEUED));
+    }
+
+    private async _postWithRetries(post: QueuedPost): Promise<PostResult> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const status = await _postJson(post.url, post.summary);
+                if (status >= 200 && status < 300) {
+                    return 'sent';
+                }
+
+                // sending the same summary again won't help, so drop it instead of blocking the queue
+                vscode.window.showWarningMessage(`Style Meter: ${post.url} rejected the session summary from ` +
+                    `${post.summary.start} with status ${status}, so it was dropped.`);
+                return 'dropped';
+            } catch (err) {
+                // the post stays queued for the next try
+                if (attempt >= RETRY_DELAYS_MS.length) {
+                    return 'queued';
+                }
+                await new Promise(resolve => setTimeout(resolve, RETRY_DELAYS_MS[attempt]));
+            }
+        }
+    }
+}
+
+
+function _isSamePost(a: QueuedPost, b: QueuedPost): boolean {
+    return a.url === b.url && a.summary.id === b.summary.id;
+}
+
+
+// resolves to the status of responses that sending again won't change, and rejects for the rest
+function _postJson(target: string, summary: SessionSummary): Promise<number> {
+    const options = url.parse(target);
+    const request = options.protocol === 'https:' ? https.request : http.request;
+    const data = Buffer.from(JSON.stringify(summary));
+
+    return new Promise<number>((resolve, reject) => {
+        const req = request({
+            ...options,
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Content-Length': data.length },
+        }, res => {
+            res.resume();
+            const status = res.statusCode || 0;
+            if (status >= 200 && status < 500 && RETRY_STATUSES.indexOf(status) < 0) {
+                resolve(status);
+            } else {
+                reject(new Error(`the server responded with ${status}`));
+            }
+        });
+        req.setTimeout(POST_TIMEOUT_MS, () => req.abort());
+        req.on('error', reject);
+        req.end(data);
+    });
+}
+
+
+function _csvRow(summary: SessionSummary): string {
+    const timeInRank = Object.keys(summary.timeInRankMs).map(rank => `${rank}=${summary.timeInRankMs[rank]}`);
+    const values: { [column: string]: string | number } = Object.assign({}, summary, {
+        languages: summary.languages.join(';'),
+        timeInRankMs: timeInRank.join(';'),
+    });
+    return CSV_COLUMNS.map(column => _csvField(values[column])).join(',');
+}
+
+
+function _csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+
+function _getUser(): string {
+    try {
+        return os.userInfo().username;
+    } catch (err) {
+        return '';
+    }
+}
+
+
+function _round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
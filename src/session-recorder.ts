@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { RankChangeEvent, ScoreChangeEvent, ScoreKeeper } from './score-keeper';
+import { StyleMeterConfig } from './config';
+import { CommitRecord, SessionRecord, saveSession } from './session';
+
+
+/**
+ * How often the score is sampled for the rank over time chart.
+ */
+const SAMPLE_PERIOD_MS = 10000;
+
+/**
+ * How often the session in progress is saved, so a crash loses little.
+ */
+const SAVE_PERIOD_MS = 60000;
+
+/**
+ * The max number of samples to keep per session. About 5.5 hours at the sample period.
+ */
+const MAX_SAMPLES = 2000;
+
+
+/**
+ * Records the stats of a style meter session and stores them in global state, with its samples in a folder.
+ */
+export class SessionRecorder {
+    private _session: SessionRecord;
+
+    // the current rank, and the last time it changed
+    private _rankIndex = -1;
+    private _rankStartTime: number;
+
+    private _sampleTimer: NodeJS.Timer;
+    private _saveTimer: NodeJS.Timer;
+    private _disposed = false;
+
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(public readonly config: StyleMeterConfig, private readonly _scoreKeeper: ScoreKeeper,
+            private readonly _memento: vscode.Memento, private readonly _folder: string) {
+        const now = new Date().valueOf();
+        this._rankStartTime = now;
+        this._session = {
+            id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+            start: now,
+            end: now,
+            workspace: vscode.workspace.name || '',
+            languages: [],
+            ranks: config.ranks.map(rank => rank.text),
+            maxScore: config.maxScore,
+            timeInRankMs: {},
+            peakRankIndex: -1,
+            peakScore: 0,
+            rankUps: 0,
+            rankDowns: 0,
+            samples: [],
+            commits: [],
+        };
+
+        this._scoreKeeper.onScoreChange(this._onScoreChange, this, this._disposables);
+        this._scoreKeeper.onRankChange(this._onRankChange, this, this._disposables);
+
+        this._sampleTimer = setInterval(() => this._sample(), SAMPLE_PERIOD_MS);
+        this._saveTimer = setInterval(() => this.save(), SAVE_PERIOD_MS);
+    }
+
+    /**
+     * The session so far, as of the last save.
+     */
+    get session(): SessionRecord {
+        return this._session;
+    }
+
+    public dispose(): void {
+        if (this._disposed) {
+            return;
+        }
+        this._disposed = true;
+
+        for (let d of this._disposables) {
+            d.dispose();
+        }
+        clearInterval(this._sampleTimer);
+        clearInterval(this._saveTimer);
+
+        this._sample();
+        this.save();
+    }
+
+    /**
+     * Store the session so far. Sessions that never reached a rank are not worth keeping.
+     */
+    public save(): Thenable<void> {
+        const now = new Date().valueOf();
+        this._addTimeInRank(now);
+        this._session.end = now;
+
+        if (this._session.peakRankIndex < 0) {
+            return Promise.resolve();
+        }
+        return saveSession(this._memento, this._folder, this._session);
+    }
+
+    public addCommit(commit: CommitRecord) {
+        this._session.commits!.push(commit);
+    }
+
+    private _onScoreChange(event: ScoreChangeEvent) {
+        if (event.score > this._session.peakScore) {
+            this._session.peakScore = event.score;
+        }
+    }
+
+    private _onRankChange(event: RankChangeEvent) {
+        this._addTimeInRank(new Date().valueOf());
+
+        if (event.rankIndex > this._rankIndex) {
+            this._session.rankUps++;
+        } else {
+            this._session.rankDowns++;
+        }
+        if (event.rankIndex > this._session.peakRankIndex) {
+            this._session.peakRankIndex = event.rankIndex;
+        }
+        this._rankIndex = event.rankIndex;
+
+        this._sample();
+    }
+
+    private _addTimeInRank(now: number) {
+        if (this._rankIndex >= 0) {
+            const rank = this._session.ranks[this._rankIndex];
+            const time = this._session.timeInRankMs[rank] || 0;
+            this._session.timeInRankMs[rank] = time + (now - this._rankStartTime);
+        }
+        this._rankStartTime = now;
+    }
+
+    private _sample() {
+        const editor = vscode.window.activeTextEditor;
+        const language = editor ? editor.document.languageId : '';
+        if (language && this._session.languages.indexOf(language) < 0) {
+            this._session.languages.push(language);
+        }
+
+        const samples = this._session.samples;
+        samples.push({
+            time: new Date().valueOf(),
+            rankIndex: this._scoreKeeper.rankIndex(),
+            score: Math.round(this._scoreKeeper.score() * 10) / 10,
+            language,
+        });
+        if (samples.length > MAX_SAMPLES) {
+            samples.splice(0, samples.length - MAX_SAMPLES);
+        }
+    }
+}
@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ExtensionContext, Memento } from 'vscode';
+
+
+/**
+ * The globalState key that session records are stored under.
+ */
+const SESSIONS_KEY = 'styleMeter.sessions';
+
+/**
+ * The max number of sessions to keep. The oldest are dropped first.
+ */
+const MAX_STORED_SESSIONS = 500;
+
+/**
+ * The max number of sessions to keep the rank over time samples of, which are far bigger than the rest of a session.
+ * Older sessions keep their stats, but not their charts.
+ */
+const MAX_SAMPLED_SESSIONS = 50;
+
+
+export interface RankSample {
+    time: number;      // epoch ms
+    rankIndex: number; // index into the session's ranks. -1 means no ranking
+    score: number;
+    language: string;  // language id of the active editor, or '' if there is none
+}
+
+
+export interface CommitRecord {
+    time: number;       // epoch ms
+    repository: string; // name of the repository's folder
+    hash: string;
+    message: string;    // the first line of the commit message
+    rankIndex: number;  // the peak rank while the commit was authored, as an index into the session's ranks
+    lines: number;      // lines added and removed, counted up to the bonus cap
+    style: number;      // style points gained from the commit bonus
+}
+
+
+export interface SessionRecord {
+    id: string;
+    start: number;     // epoch ms
+    end: number;       // epoch ms
+    workspace: string; // name of the workspace, or '' if no folder is open
+    languages: string[];
+
+    /**
+     * The rank ladder at the time of the session, lowest first.
+     */
+    ranks: string[];
+    maxScore: number;
+
+    /**
+     * Time in ms spent in each rank, by rank text.
+     */
+    timeInRankMs: { [rank: string]: number };
+
+    peakRankIndex: number;
+    peakScore: number;
+    rankUps: number;
+    rankDowns: number;
+
+    samples: RankSample[];
+
+    /**
+     * Commits made during the session. Missing from sessions recorded before commits were.
+     */
+    commits?: CommitRecord[];
+}
+
+
+/**
+ * The folder that session samples are stored in.
+ */
+export function getSessionsFolder(context: ExtensionContext): string {
+    const storagePath = (context as { globalStoragePath?: string }).globalStoragePath || os.tmpdir();
+    return path.join(storagePath, 'style-meter-sessions');
+}
+
+
+/**
+ * A session as stored in global state. Its samples are stored in a file of their own, so saving
+ * the sessions doesn't rewrite every sample ever taken.
+ */
+type StoredSession = Pick<SessionRecord, Exclude<keyof SessionRecord, 'samples'>> & { samples?: RankSample[] };
+
+
+/**
+ * Load every stored session, with the samples of those that still have them.
+ *
+ * @param folder the folder that session samples are stored in
+ */
+export function loadSessions(memento: Memento, folder: string): SessionRecord[] {
+    return memento.get<StoredSession[]>(SESSIONS_KEY, []).map(stored => ({
+        ...stored,
+        samples: stored.samples || _loadSamples(folder, stored.id),
+    }));
+}
+
+
+/**
+ * Add a session record, or replace the stored record with the same id.
+ * The session is still stored if its samples can't be written, just without them.
+ *
+ * @param folder the folder that session samples are stored in
+ */
+export function saveSession(memento: Memento, folder: string, session: SessionRecord): Thenable<void> {
+    const sessions = memento.get<StoredSession[]>(SESSIONS_KEY, []).filter(s => s.id !== session.id);
+    sessions.push(session);
+    const kept = sessions.slice(-MAX_STORED_SESSIONS);
+    const sampledIds = kept.slice(-MAX_SAMPLED_SESSIONS).map(s => s.id);
+
+    try {
+        _makeFolder(folder);
+        fs.writeFileSync(_getSamplesPath(folder, session.id), JSON.stringify(session.samples));
+
+        // move the samples of sessions stored before samples had files of their own
+        for (let stored of kept) {
+            if (stored.samples && stored.id !== session.id && sampledIds.indexOf(stored.id) >= 0) {
+                fs.writeFileSync(_getSamplesPath(folder, stored.id), JSON.stringify(stored.samples));
+            }
+        }
+
+        // forget the samples of sessions too old to keep them
+        for (let name of fs.readdirSync(folder)) {
+            if (sampledIds.indexOf(path.basename(name, '.json')) < 0) {
+                fs.unlinkSync(path.join(folder, name));
+            }
+        }
+    } catch (err) {
+        // the rest of the session is still worth keeping
+    }
+
+    return memento.update(SESSIONS_KEY, kept.map(_stripSamples));
+}
+
+
+function _stripSamples(session: StoredSession): StoredSession {
+    const { samples, ...stored } = session;
+    return stored;
+}
+
+
+// make a folder and its parent, which VSCode doesn't make until it's needed
+function _makeFolder(folder: string) {
+    for (let dir of [path.dirname(folder), folder]) {
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir);
+        }
+    }
+}
+
+
+function _getSamplesPath(folder: string, id: string): string {
+    return path.join(folder, `${id}.json`);
+}
+
+
+function _loadSamples(folder: string, id: string): RankSample[] {
+    try {
+        return JSON.parse(fs.readFileSync(_getSamplesPath(folder, id), 'utf8'));
+    } catch (err) {
+        // the session is too old to have kept its samples
+        return [];
+    }
+}
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from './config';
+import { ComboChangeEvent, RankChangeEvent, ScoreKeeper } from './score-keeper';
+import { AudioTrack, playAudio } from './audio-backend';
+
+
+/**
+ * The smallest combo whose break is worth a sound.
+ */
+const MIN_BROKEN_COMBO = 10;
+
+
+/**
+ * Returns true if any sound effect is configured.
+ */
+export function hasSoundEffects(config: StyleMeterConfig): boolean {
+    return Object.keys(config.rankUpSounds).length > 0 || !!config.rankDownSound || !!config.comboBreakSound;
+}
+
+
+/**
+ * Plays one-shot clips like an announcer when the rank goes up, and optionally when it drops or a combo breaks.
+ * Clips play at their own volume, separately from the music.
+ */
+export class SoundEffects {
+    // the clip playing right now, cut off by the next one
+    private _track?: AudioTrack;
+
+    // the last epoch a clip started, for the cooldown
+    private _lastPlayTimeMs = 0;
+
+    private _rankIndex: number;
+    private _combo: number;
+
+    // only warn about a missing player once
+    private _warned = false;
+
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(public config: StyleMeterConfig, private readonly _scoreKeeper: ScoreKeeper) {
+        this._rankIndex = this._scoreKeeper.rankIndex();
+        this._combo = this._scoreKeeper.combo();
+        this._scoreKeeper.onRankChange(this._onRankChange, this, this._disposables);
+        this._scoreKeeper.onComboChange(this._onComboChange, this, this._disposables);
+    }
+
+    public dispose(): void {
+        for (let d of this._disposables) {
+            d.dispose();
+        }
+        this._stop();
+    }
+
+    private _onRankChange(event: RankChangeEvent) {
+        const prevRankIndex = this._rankIndex;
+        this._rankIndex = event.rankIndex;
+
+        if (event.rankIndex > prevRankIndex) {
+            const rank = this.config.ranks[event.rankIndex];
+            this._play(this.config.rankUpSounds[rank.text]);
+        } else if (event.rankIndex < prevRankIndex) {
+            this._play(this.config.rankDownSound);
+        }
+    }
+
+    private _onComboChange(event: ComboChangeEvent) {
+        const prevCombo = this._combo;
+        this._combo = event.combo;
+
+        if (event.combo === 0 && prevCombo >= MIN_BROKEN_COMBO) {
+            this._play(this.config.comboBreakSound);
+        }
+    }
+
+    private _play(filepath?: string) {
+        const now = new Date().valueOf();
+        if (!filepath || now - this._lastPlayTimeMs < this.config.soundEffectsCooldownMs) {
+            return;
+        }
+        this._lastPlayTimeMs = now;
+        this._stop();
+
+        // the system volume backend would change the volume of everything, so use a player that can set its own
+        const backend = this.config.musicBackend === 'systemVolume' ? 'auto' : this.config.musicBackend;
+        try {
+            const track = playAudio(backend, filepath, false, this.config.soundEffectsVolume);
+            track.onDidEnd(() => {
+                if (this._track === track) {
+                    this._stop();
+                }
+            });
+            this._track = track;
+        } catch (err) {
+            if (!this._warned) {
+                this._warned = true;
+                vscode.window.showWarningMessage(`Style Meter sound effects could not be played: ${err.message}`);
+            }
+        }
+    }
+
+    private _stop() {
+        if (this._track) {
+            this._track.dispose();
+            this._track = undefined;
+        }
+    }
+}
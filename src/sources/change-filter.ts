@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from '../config';
+
+
+/**
+ * Values of `TextDocumentChangeEvent.reason` in newer versions of VSCode.
+ * Older versions never set a reason, so undo and redo can't be told apart from typing there.
+ */
+const UNDO_REASON = 1;
+const REDO_REASON = 2;
+
+
+/**
+ * What caused a document change, as far as can be told.
+ *
+ * - `user`: the user typed or pasted in the active editor
+ * - `ignoredScheme`: the document is not a user document, e.g. output, logs or git
+ * - `undoRedo`: the change came from undo or redo
+ * - `bulk`: many places were edited at once in the active editor, e.g. by a formatter or a rename
+ * - `background`: a document other than the active one changed, e.g. by another extension,
+ *   a workspace edit or a file changing on disk
+ */
+export type ChangeKind = 'user' | 'ignoredScheme' | 'undoRedo' | 'bulk' | 'background';
+
+
+/**
+ * The parts of a document change needed to classify it.
+ */
+export interface ChangeInfo {
+    scheme: string;
+    reason?: number;
+    isActiveDocument: boolean;
+    cursorCount: number;
+    changes: { text: string, rangeLength: number }[];
+}
+
+
+export function getChangeInfo(event: vscode.TextDocumentChangeEvent): ChangeInfo {
+    const editor = vscode.window.activeTextEditor;
+    const isActiveDocument = editor !== undefined && editor.document === event.document;
+    return {
+        scheme: event.document.uri.scheme,
+        reason: (event as { reason?: number }).reason,
+        isActiveDocument,
+        cursorCount: editor && isActiveDocument ? editor.selections.length : 0,
+        changes: event.contentChanges.map(change => ({ text: change.text, rangeLength: change.rangeLength })),
+    };
+}
+
+
+export function classifyChange(info: ChangeInfo, config: StyleMeterConfig): ChangeKind {
+    if (config.scoredSchemes.indexOf(info.scheme) < 0) {
+        return 'ignoredScheme';
+    }
+    if (config.ignoreUndoRedo && (info.reason === UNDO_REASON || info.reason === REDO_REASON)) {
+        return 'undoRedo';
+    }
+    if (!info.isActiveDocument) {
+        return 'background';
+    }
+    if (config.ignoreBulkEdits && _isBulk(info, config)) {
+        return 'bulk';
+    }
+    return 'user';
+}
+
+
+/**
+ * Shorthand to classify a vscode change event.
+ */
+export function classifyChangeEvent(event: vscode.TextDocumentChangeEvent, config: StyleMeterConfig): ChangeKind {
+    return classifyChange(getChangeInfo(event), config);
+}
+
+
+function _isBulk(info: ChangeInfo, config: StyleMeterConfig): boolean {
+    // more edits than cursors didn't come from the keyboard
+    if (info.changes.length > Math.max(info.cursorCount, 1)) {
+        return true;
+    }
+
+    // replacing a huge chunk of the document at once, like a whole-file format
+    return info.changes.some(change => change.rangeLength >= config.bulkEditMinLength);
+}
+
+
+/**
+ * Tracks runs of the same character typed over and over, like a held down key,
+ * and gives diminishing returns for them.
+ */
+export class RepeatTracker {
+    private _lastText = '';
+    private _runLength = 0;
+
+    constructor(public readonly config: StyleMeterConfig) {
+    }
+
+    /**
+     * Record the text inserted by a change.
+     * Returns the multiplier (0 to 1) that should be applied to its reward.
+     */
+    public next(info: ChangeInfo): number {
+        // multiple cursors insert the same text at each cursor
+        const text = info.changes.length > 0 ? info.changes[0].text : '';
+        const repeated = text.length === 1 && info.changes.every(change => change.text === text);
+
+        if (repeated && text === this._lastText) {
+            this._runLength++;
+        } else {
+            this._runLength = 1;
+        }
+        this._lastText = repeated ? text : '';
+
+        const extra = this._runLength - this.config.repeatThreshold;
+        if (extra <= 0) {
+            return 1;
+        }
+        return Math.pow(this.config.repeatDecay, extra);
+    }
+}
@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from '../config';
+import { BaseScoringSource } from './scoring-source';
+import { classifyChangeEvent } from './change-filter';
+
+
+/**
+ * The style point reward for accepting a completion.
+ */
+const COMPLETION_REWARD = 2;
+
+/**
+ * The style point reward for inserting a snippet.
+ */
+const SNIPPET_REWARD = 3;
+
+/**
+ * The longest typed prefix that a completion is expected to replace.
+ */
+const MAX_PREFIX_LENGTH = 30;
+
+
+/**
+ * Awards style for accepted completions and snippets.
+ *
+ * VSCode does not report accepted suggestions, so they are detected from their edits:
+ * a single change that replaces the short prefix typed so far with something longer.
+ * Plain typing and auto-closed brackets never replace text, so they are not counted.
+ */
+export class CompletionSource extends BaseScoringSource {
+    constructor(weight: number, public readonly config: StyleMeterConfig) {
+        super(weight);
+        vscode.workspace.onDidChangeTextDocument(this._onDidChangeTextDocument, this, this._disposables);
+    }
+
+    private _onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent) {
+        if (event.contentChanges.length !== 1 || classifyChangeEvent(event, this.config) !== 'user') {
+            return;
+        }
+
+        const change = event.contentChanges[0];
+        const replacesPrefix = change.rangeLength > 0 && change.rangeLength <= MAX_PREFIX_LENGTH &&
+            change.range.isSingleLine;
+        if (!replacesPrefix || change.text.length < 2 || change.text.length <= change.rangeLength ||
+                change.text.trim().length === 0) {
+            return;
+        }
+
+        if (change.text.indexOf('\n') >= 0) {
+            this._award(SNIPPET_REWARD, 'snippet');
+        } else {
+            this._award(COMPLETION_REWARD, 'completion');
+        }
+    }
+}
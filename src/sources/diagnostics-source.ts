@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from '../config';
+import { BaseScoringSource } from './scoring-source';
+import { classifyChangeEvent } from './change-filter';
+
+
+/**
+ * Only documents edited within this time are scored.
+ * Diagnostics for other documents change because of builds and linters, not because of the user.
+ */
+const EDIT_RECENCY_MS = 60000;
+
+
+interface DocumentDiagnostics {
+    // the weighted diagnostic count when the document last settled
+    baseline: number;
+
+    // the number of errors when the document last settled
+    errors: number;
+
+    // the last time the user edited the document
+    lastEditTime: number;
+
+    // timer to wait for the diagnostics to settle
+    timer?: NodeJS.Timer;
+}
+
+
+/**
+ * Removes style when the user introduces errors or warnings, and awards style for cleaning them up.
+ *
+ * Diagnostics are only compared once they have stopped changing for the debounce window,
+ * so a half-typed line does not cost points on every keystroke.
+ */
+export class DiagnosticsSource extends BaseScoringSource {
+    private _documents = new Map<string, DocumentDiagnostics>();
+
+    constructor(weight: number, public readonly config: StyleMeterConfig) {
+        super(weight);
+        vscode.workspace.onDidChangeTextDocument(this._onDidChangeTextDocument, this, this._disposables);
+        vscode.languages.onDidChangeDiagnostics(this._onDidChangeDiagnostics, this, this._disposables);
+        vscode.workspace.onDidCloseTextDocument(this._onDidCloseTextDocument, this, this._disposables);
+    }
+
+    public dispose() {
+        super.dispose();
+        this._documents.forEach(d => {
+            if (d.timer) {
+                clearTimeout(d.timer);
+            }
+        });
+        this._documents.clear();
+    }
+
+    private _onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent) {
+        if (event.contentChanges.length === 0 || classifyChangeEvent(event, this.config) !== 'user') {
+            return;
+        }
+
+        const uri = event.document.uri;
+        let d = this._documents.get(uri.toString());
+        if (!d) {
+            d = { baseline: this._getWeightedCount(uri), errors: this._getErrorCount(uri), lastEditTime: 0 };
+            this._documents.set(uri.toString(), d);
+        }
+        d.lastEditTime = new Date().valueOf();
+
+        // still typing, so wait longer before judging
+        if (d.timer) {
+            this._schedule(uri, d);
+        }
+    }
+
+    private _onDidChangeDiagnostics(event: vscode.DiagnosticChangeEvent) {
+        const now = new Date().valueOf();
+        for (let uri of event.uris) {
+            const d = this._documents.get(uri.toString());
+            if (d && now - d.lastEditTime <= EDIT_RECENCY_MS) {
+                this._schedule(uri, d);
+            }
+        }
+    }
+
+    private _onDidCloseTextDocument(document: vscode.TextDocument) {
+        const d = this._documents.get(document.uri.toString());
+        if (d) {
+            if (d.timer) {
+                clearTimeout(d.timer);
+            }
+            this._documents.delete(document.uri.toString());
+        }
+    }
+
+    private _schedule(uri: vscode.Uri, d: DocumentDiagnostics) {
+        if (d.timer) {
+            clearTimeout(d.timer);
+        }
+        d.timer = setTimeout(() => {
+            d.timer = undefined;
+            this._settle(uri, d);
+        }, this.config.diagnosticDebounceMs);
+    }
+
+    private _settle(uri: vscode.Uri, d: DocumentDiagnostics) {
+        const count = this._getWeightedCount(uri);
+        const errors = this._getErrorCount(uri);
+        const delta = count - d.baseline;
+        const newErrors = errors > d.errors;
+        d.baseline = count;
+        d.errors = errors;
+
+        if (delta > 0) {
+            this._award(-delta, 'new problems', this.config.diagnosticDropRank && newErrors);
+        } else if (delta < 0) {
+            this._award(-delta, 'clean-up');
+        }
+    }
+
+    private _getWeightedCount(uri: vscode.Uri): number {
+        let count = 0;
+        for (let diagnostic of vscode.languages.getDiagnostics(uri)) {
+            if (diagnostic.severity === vscode.DiagnosticSeverity.Error) {
+                count += this.config.diagnosticErrorWeight;
+            } else if (diagnostic.severity === vscode.DiagnosticSeverity.Warning) {
+                count += this.config.diagnosticWarningWeight;
+            }
+        }
+        return count;
+    }
+
+    private _getErrorCount(uri: vscode.Uri): number {
+        return vscode.languages.getDiagnostics(uri)
+            .filter(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error)
+            .length;
+    }
+}
@@ -0,0 +1,47 @@
+import { StyleMeterConfig } from '../config';
+import { ScoringSource } from './scoring-source';
+import { TypingSource } from './typing-source';
+import { SaveSource } from './save-source';
+import { CompletionSource } from './completion-source';
+import { RefactorSource } from './refactor-source';
+import { MultiCursorSource } from './multi-cursor-source';
+import { NavigationSource } from './navigation-source';
+import { DiagnosticsSource } from './diagnostics-source';
+import { TaskSource } from './task-source';
+
+export { ScoringSource, StyleAwardEvent, BaseScoringSource } from './scoring-source';
+
+
+const SOURCE_CONSTRUCTORS: { [name: string]: new (weight: number, config: StyleMeterConfig) => ScoringSource } = {
+    typing: TypingSource,
+    save: SaveSource,
+    completion: CompletionSource,
+    refactor: RefactorSource,
+    multiCursor: MultiCursorSource,
+    navigation: NavigationSource,
+    diagnostics: DiagnosticsSource,
+    tasks: TaskSource,
+};
+
+
+/**
+ * Returns true if a source name is taken by a built-in scoring source.
+ */
+export function isBuiltInSource(name: string): boolean {
+    return SOURCE_CONSTRUCTORS.hasOwnProperty(name);
+}
+
+
+/**
+ * Create every built-in scoring source that has a non-zero weight.
+ */
+export function createScoringSources(config: StyleMeterConfig): ScoringSource[] {
+    const sources: ScoringSource[] = [];
+    for (let name of Object.keys(SOURCE_CONSTRUCTORS)) {
+        const weight = config.sourceWeights[name];
+        if (weight) {
+            sources.push(new SOURCE_CONSTRUCTORS[name](weight, config));
+        }
+    }
+    return sources;
+}
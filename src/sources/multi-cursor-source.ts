@@ -0,0 +1,48 @@
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from '../config';
+import { BaseScoringSource } from './scoring-source';
+import { classifyChangeEvent } from './change-filter';
+
+
+/**
+ * The style point reward per extra cursor in a multi-cursor edit.
+ */
+const REWARD_PER_CURSOR = 0.5;
+
+/**
+ * The max style point reward for a single multi-cursor edit.
+ */
+const MAX_MULTI_CURSOR_REWARD = 3;
+
+
+/**
+ * Awards bonus style for editing with multiple cursors, on top of the typing reward.
+ */
+export class MultiCursorSource extends BaseScoringSource {
+    constructor(weight: number, public readonly config: StyleMeterConfig) {
+        super(weight);
+        vscode.workspace.onDidChangeTextDocument(this._onDidChangeTextDocument, this, this._disposables);
+    }
+
+    private _onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent) {
+        if (classifyChangeEvent(event, this.config) !== 'user') {
+            return;
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document !== event.document) {
+            return;
+        }
+
+        const cursors = editor.selections.length;
+        if (cursors < 2 || event.contentChanges.length < 2) {
+            return;
+        }
+
+        let reward = (cursors - 1) * REWARD_PER_CURSOR;
+        if (reward > MAX_MULTI_CURSOR_REWARD) {
+            reward = MAX_MULTI_CURSOR_REWARD;
+        }
+        this._award(reward, 'multi-cursor');
+    }
+}
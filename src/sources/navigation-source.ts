@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { BaseScoringSource } from './scoring-source';
+
+
+/**
+ * The style point reward for a navigation command.
+ */
+const NAVIGATION_REWARD = 1;
+
+/**
+ * How far the cursor must jump within a file to count as navigation.
+ */
+const MIN_NAVIGATION_LINES = 10;
+
+/**
+ * Navigation closer together than this only counts once. This keeps repeated jumps from being farmed.
+ */
+const NAVIGATION_COOLDOWN_MS = 2000;
+
+
+/**
+ * Awards style for navigation commands such as go-to-definition and go-to-line.
+ *
+ * Commands move the cursor with a selection change of kind `Command`.
+ * Only jumps to another file or far away in the same file are counted.
+ */
+export class NavigationSource extends BaseScoringSource {
+    private _lastDocument?: vscode.TextDocument;
+    private _lastLine = 0;
+    private _lastNavigationTime = 0;
+
+    constructor(weight: number) {
+        super(weight);
+        vscode.window.onDidChangeTextEditorSelection(this._onDidChangeTextEditorSelection, this,
+            this._disposables);
+    }
+
+    private _onDidChangeTextEditorSelection(event: vscode.TextEditorSelectionChangeEvent) {
+        const document = event.textEditor.document;
+        const line = event.selections[0].active.line;
+        const jumped = document !== this._lastDocument || Math.abs(line - this._lastLine) >= MIN_NAVIGATION_LINES;
+        this._lastDocument = document;
+        this._lastLine = line;
+
+        if (event.kind !== vscode.TextEditorSelectionChangeKind.Command || !jumped) {
+            return;
+        }
+
+        const now = new Date().valueOf();
+        if (now - this._lastNavigationTime < NAVIGATION_COOLDOWN_MS) {
+            return;
+        }
+        this._lastNavigationTime = now;
+        this._award(NAVIGATION_REWARD, 'navigation');
+    }
+}
@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from '../config';
+import { BaseScoringSource } from './scoring-source';
+import { classifyChangeEvent } from './change-filter';
+
+
+/**
+ * The style point reward for a rename or refactor.
+ */
+const REFACTOR_REWARD = 4;
+
+/**
+ * Edits closer together than this count as the same refactor.
+ * A rename across many files fires one change event per file.
+ */
+const REFACTOR_COOLDOWN_MS = 1000;
+
+/**
+ * Renames insert identifiers, as opposed to formatters and files reloading from disk.
+ */
+const IDENTIFIER_PATTERN = /^[\w$]+$/;
+
+
+/**
+ * Awards style for renames and other refactors.
+ *
+ * A refactor is detected as one change event that edits several places at once
+ * without the user having several cursors, or an edit to a document that is not in the active editor.
+ */
+export class RefactorSource extends BaseScoringSource {
+    private _lastRefactorTime = 0;
+
+    constructor(weight: number, public readonly config: StyleMeterConfig) {
+        super(weight);
+        vscode.workspace.onDidChangeTextDocument(this._onDidChangeTextDocument, this, this._disposables);
+    }
+
+    private _onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent) {
+        if (event.contentChanges.length === 0 || !this._isRefactor(event)) {
+            return;
+        }
+
+        const now = new Date().valueOf();
+        if (now - this._lastRefactorTime < REFACTOR_COOLDOWN_MS) {
+            return;
+        }
+        this._lastRefactorTime = now;
+        this._award(REFACTOR_REWARD, 'refactor');
+    }
+
+    private _isRefactor(event: vscode.TextDocumentChangeEvent): boolean {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return false;
+        }
+
+        // every edit of a rename inserts the same identifier
+        const text = event.contentChanges[0].text;
+        if (!IDENTIFIER_PATTERN.test(text) || !event.contentChanges.every(change => change.text === text)) {
+            return false;
+        }
+
+        switch (classifyChangeEvent(event, this.config)) {
+            // edits to other files while the user works in this one come from workspace edits
+            case 'background':
+                return true;
+
+            // several edits at once with a single cursor
+            case 'bulk':
+            case 'user':
+                return event.contentChanges.length >= 2 && editor.selections.length === 1;
+
+            default:
+                return false;
+        }
+    }
+}
@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from '../config';
+import { BaseScoringSource } from './scoring-source';
+import { classifyChangeEvent } from './change-filter';
+
+
+/**
+ * The style point reward for saving a file.
+ */
+const SAVE_REWARD = 2;
+
+/**
+ * Saves closer together than this only count once. This keeps "Save All" from paying out per file.
+ */
+const SAVE_COOLDOWN_MS = 1000;
+
+
+/**
+ * Awards style for saving files that were edited since they were last saved.
+ * Saving again without editing, like holding down the save key or auto save, earns nothing.
+ */
+export class SaveSource extends BaseScoringSource {
+    private _lastSaveTime = 0;
+
+    // documents the user edited since they were last saved, by uri
+    private _editedUris = new Set<string>();
+
+    constructor(weight: number, public readonly config: StyleMeterConfig) {
+        super(weight);
+        vscode.workspace.onDidChangeTextDocument(this._onDidChangeTextDocument, this, this._disposables);
+        vscode.workspace.onDidSaveTextDocument(this._onDidSaveTextDocument, this, this._disposables);
+        vscode.workspace.onDidCloseTextDocument(this._onDidCloseTextDocument, this, this._disposables);
+    }
+
+    private _onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent) {
+        // the same changes the typing source scores, so settings and output documents never count
+        if (classifyChangeEvent(event, this.config) === 'user') {
+            this._editedUris.add(event.document.uri.toString());
+        }
+    }
+
+    private _onDidCloseTextDocument(document: vscode.TextDocument) {
+        this._editedUris.delete(document.uri.toString());
+    }
+
+    private _onDidSaveTextDocument(document: vscode.TextDocument) {
+        if (!this._editedUris.delete(document.uri.toString())) {
+            return;
+        }
+
+        const now = new Date().valueOf();
+        if (now - this._lastSaveTime < SAVE_COOLDOWN_MS) {
+            return;
+        }
+        this._lastSaveTime = now;
+        this._award(SAVE_REWARD, 'save');
+    }
+}
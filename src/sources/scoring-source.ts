@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+
+
+export interface StyleAwardEvent {
+    /**
+     * Style points to add to the score. Negative values remove style.
+     */
+    points: number;
+
+    /**
+     * A short description of why the points were awarded.
+     */
+    reason: string;
+
+    /**
+     * Drop down a whole rank before applying the points.
+     */
+    dropRank?: boolean;
+
+    /**
+     * A short message to flash on the meter, like 'Tests passed!'.
+     */
+    message?: string;
+}
+
+
+/**
+ * Anything that can award or remove style points.
+ */
+export interface ScoringSource {
+    readonly onAward: vscode.Event<StyleAwardEvent>;
+    dispose(): void;
+}
+
+
+/**
+ * A scoring source that scales every award by a configurable weight.
+ */
+export abstract class BaseScoringSource implements ScoringSource {
+    private _onAward = new vscode.EventEmitter<StyleAwardEvent>();
+
+    protected _disposables: vscode.Disposable[] = [
+        this._onAward
+    ];
+
+    constructor(public readonly weight: number) {
+    }
+
+    get onAward() {
+        return this._onAward.event;
+    }
+
+    public dispose() {
+        for (let d of this._disposables) {
+            d.dispose();
+        }
+    }
+
+    protected _award(points: number, reason: string, dropRank = false, message?: string) {
+        this._onAward.fire({ points: points * this.weight, reason, dropRank, message });
+    }
+}
@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from '../config';
+import { BaseScoringSource } from './scoring-source';
+
+
+/**
+ * The rules to match a task against, after its own name: the group of a task, or 'debug' for a debug session.
+ * '*' matches anything else.
+ */
+export type TaskGroupName = 'build' | 'test' | 'clean' | 'rebuild' | 'debug' | '*';
+
+
+/**
+ * What a task earns for passing and costs for failing.
+ */
+export interface TaskReward {
+    /**
+     * Style points for exiting with code 0.
+     */
+    pass?: number;
+
+    /**
+     * Style points lost for exiting with any other code.
+     */
+    fail?: number;
+
+    /**
+     * Drop a whole rank when the task fails.
+     */
+    dropRank?: boolean;
+
+    /**
+     * Messages to flash on the meter instead of the default ones.
+     */
+    passMessage?: string;
+    failMessage?: string;
+}
+
+
+const TASK_GROUPS: [vscode.TaskGroup, TaskGroupName][] = [
+    [vscode.TaskGroup.Build, 'build'],
+    [vscode.TaskGroup.Test, 'test'],
+    [vscode.TaskGroup.Clean, 'clean'],
+    [vscode.TaskGroup.Rebuild, 'rebuild'],
+];
+
+const DEFAULT_MESSAGES: { [group: string]: [string, string] } = {
+    build: ['Build passed!', 'Build failed'],
+    test: ['Tests passed!', 'Tests failed'],
+};
+
+
+/**
+ * Awards style for tasks and debug sessions that exit with code 0, like a green test run,
+ * and removes style for ones that fail. Rewards are looked up by task or launch configuration name,
+ * then by group, in the `taskRewards` setting.
+ */
+export class TaskSource extends BaseScoringSource {
+    // the exit code of each running debug session that has reported one, by session id
+    private _debugExitCodes = new Map<string, number>();
+
+    constructor(weight: number, public readonly config: StyleMeterConfig) {
+        super(weight);
+        vscode.tasks.onDidEndTaskProcess(this._onDidEndTaskProcess, this, this._disposables);
+        vscode.debug.onDidTerminateDebugSession(this._onDidTerminateDebugSession, this, this._disposables);
+
+        // debug sessions only report their exit code in a debug adapter message
+        this._disposables.push(vscode.debug.registerDebugAdapterTrackerFactory('*', {
+            createDebugAdapterTracker: session => ({
+                onDidSendMessage: message => {
+                    if (message.type === 'event' && message.event === 'exited' && message.body) {
+                        this._debugExitCodes.set(session.id, message.body.exitCode);
+                    }
+                },
+            }),
+        }));
+    }
+
+    private _onDidEndTaskProcess(event: vscode.TaskProcessEndEvent) {
+        if (event.exitCode === undefined) {
+            return;
+        }
+        const task = event.execution.task;
+        const group = TASK_GROUPS.find(([taskGroup]) => task.group === taskGroup);
+        this._onExit(task.name, group ? group[1] : undefined, event.exitCode);
+    }
+
+    private _onDidTerminateDebugSession(session: vscode.DebugSession) {
+        const exitCode = this._debugExitCodes.get(session.id);
+        this._debugExitCodes.delete(session.id);
+        if (exitCode === undefined) {
+            return;
+        }
+
+        // wait for scoring to resume if it was paused while debugging
+        setTimeout(() => this._onExit(session.name, 'debug', exitCode), 0);
+    }
+
+    private _onExit(name: string, group: TaskGroupName | undefined, exitCode: number) {
+        const rewards = this.config.taskRewards;
+        const key = [name, group, '*'].find(k => k !== undefined && rewards[k] !== undefined);
+        if (key === undefined) {
+            return;
+        }
+        const reward = rewards[key];
+        const messages = (group && DEFAULT_MESSAGES[group]) || [`${name} passed!`, `${name} failed`];
+
+        if (exitCode === 0) {
+            if (reward.pass) {
+                this._award(reward.pass, 'task', false, reward.passMessage || messages[0]);
+            }
+        } else if (reward.fail || reward.dropRank) {
+            this._award(-(reward.fail || 0), 'task', !!reward.dropRank, reward.failMessage || messages[1]);
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from '../config';
+import { BaseScoringSource } from './scoring-source';
+import { RepeatTracker, classifyChange, getChangeInfo } from './change-filter';
+
+
+/**
+ * Awards style for typing, proportional to the number of characters inserted.
+ */
+export class TypingSource extends BaseScoringSource {
+    private _repeatTracker: RepeatTracker;
+
+    constructor(weight: number, public readonly config: StyleMeterConfig) {
+        super(weight);
+        this._repeatTracker = new RepeatTracker(config);
+        vscode.workspace.onDidChangeTextDocument(this._onDidChangeTextDocument, this, this._disposables);
+    }
+
+    private _onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent) {
+        const info = getChangeInfo(event);
+        if (classifyChange(info, this.config) !== 'user') {
+            return;
+        }
+
+        /*
+        Reward changes proportional to the size of the change, up to a point.
+        This prevents copy-paste from being overpowered.
+        Also deleting will have no effect, but still counts as activity.
+        */
+        let reward = 0;
+        for (let change of info.changes) {
+            reward += change.text.length;
+        }
+        if (reward > this.config.maxChangeReward) {
+            reward = this.config.maxChangeReward;
+        }
+
+        // holding down a key is not stylish
+        reward *= this._repeatTracker.next(info);
+
+        this._award(reward, 'typing');
+    }
+}
@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import { ComboChangeEvent, ScoreChangeEvent, ScoreKeeper } from './score-keeper';
+import { StyleMeterConfig } from './config';
+import { StyleRenderer } from './renderer';
+import { getCssColor, getRankProgress } from './rank';
+
+
+/**
+ * The number of cells in the progress bar.
+ */
+const BAR_LENGTH = 10;
+
+const BAR_FULL = '█';
+const BAR_EMPTY = '░';
+const PAUSED_ICON = '⏸ ';
+
+/**
+ * The smallest combo worth showing.
+ */
+const MIN_DISPLAYED_COMBO = 2;
+
+/**
+ * Keep the meter to the right of most other items.
+ */
+const STATUS_BAR_PRIORITY = -100;
+
+
+/**
+ * Shows the rank letter, a progress bar into the next rank and the combo in the status bar.
+ */
+export class StatusBarRenderer implements StyleRenderer {
+    private _item: vscode.StatusBarItem;
+    private _combo = 0;
+
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(public readonly config: StyleMeterConfig, private readonly _scoreKeeper: ScoreKeeper) {
+        this._item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, STATUS_BAR_PRIORITY);
+        this._disposables.push(this._item);
+
+        this._scoreKeeper.onScoreChange(this._onScoreChange, this, this._disposables);
+        this._scoreKeeper.onComboChange(this._onComboChange, this, this._disposables);
+        this._scoreKeeper.onPauseChange(this._onPauseChange, this, this._disposables);
+
+        this._update(this._scoreKeeper.rankIndex(), this._scoreKeeper.score());
+        this._item.show();
+    }
+
+    public dispose(): void {
+        for (let d of this._disposables) {
+            d.dispose();
+        }
+    }
+
+    private _onScoreChange(event: ScoreChangeEvent) {
+        this._update(event.rankIndex, event.score);
+    }
+
+    private _onComboChange(event: ComboChangeEvent) {
+        this._combo = event.combo;
+        this._update(this._scoreKeeper.rankIndex(), this._scoreKeeper.score());
+    }
+
+    private _onPauseChange() {
+        this._update(this._scoreKeeper.rankIndex(), this._scoreKeeper.score());
+    }
+
+    private _update(rankIndex: number, score: number) {
+        const progress = getRankProgress(this.config.ranks, this.config.maxScore, rankIndex, score);
+        const full = Math.round(Math.min(Math.max(progress, 0), 1) * BAR_LENGTH);
+        const bar = BAR_FULL.repeat(full) + BAR_EMPTY.repeat(BAR_LENGTH - full);
+        const combo = this._combo >= MIN_DISPLAYED_COMBO ? ` x${this._combo}` : '';
+        const paused = this._scoreKeeper.paused() ? PAUSED_ICON : '';
+        const points = `${Math.round(score)}/${this.config.maxScore}`;
+        const pausedTooltip = this._scoreKeeper.paused() ? ', paused' : '';
+
+        if (rankIndex < 0) {
+            this._item.text = `${paused}- ${bar}${combo}`;
+            this._item.color = undefined;
+            this._item.tooltip = `Style Meter: no rank (${points}${pausedTooltip})`;
+            return;
+        }
+
+        const rank = this.config.ranks[rankIndex];
+        this._item.text = `${paused}${rank.text} ${bar}${combo}`;
+        this._item.color = getCssColor(rank.color);
+        this._item.tooltip = `Style Meter: ${rank.text}${rank.smallText} (${points}${pausedTooltip})`;
+    }
+}
@@ -0,0 +1,380 @@
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { StyleMeterConfig } from './config';
+import { ScoreKeeper } from './score-keeper';
+import { createScoringSources } from './sources';
+import { MusicPlayer, getMusicLayers } from './music-player';
+import { StyleRenderer, createRenderers } from './renderer';
+import { WebviewRenderer } from './webview-renderer';
+import { SessionRecorder } from './session-recorder';
+import { AutoPause } from './auto-pause';
+import { SoundEffects, hasSoundEffects } from './sound-effects';
+import { WindowCoordinator } from './window-coordinator';
+import { AchievementTracker, AchievementUnlockEvent } from './achievements';
+import { SessionExporter } from './session-export';
+import { SessionRecord, getSessionsFolder } from './session';
+import { CommitEvent, CommitTracker } from './commit-tracker';
+import { CursorEffects, hasCursorEffects } from './cursor-effects';
+
+
+/*
+Settings that each component depends on.
+A component is only rebuilt when one of its settings changes.
+The score keeper is never rebuilt, so the score survives any change.
+*/
+
+const SOURCE_KEYS: (keyof StyleMeterConfig)[] = [
+    'sourceWeights', 'maxChangeReward', 'scoredSchemes', 'ignoreUndoRedo', 'ignoreBulkEdits', 'bulkEditMinLength',
+    'repeatThreshold', 'repeatDecay', 'diagnosticErrorWeight', 'diagnosticWarningWeight', 'diagnosticDebounceMs',
+    'diagnosticDropRank', 'taskRewards',
+];
+
+const RENDERER_KEYS: (keyof StyleMeterConfig)[] = [
+    'ranks', 'maxScore', 'renderer', 'rankLetterFontSizePx', 'rankTextFontSizePx', 'lineHeightPx', 'rankFont',
+    'hudEditors', 'hudGroup', 'scoredSchemes',
+];
+
+const HUD_KEYS: (keyof StyleMeterConfig)[] = [
+    'ranks', 'maxScore', 'webviewHud', 'rankLetterFontSizePx', 'rankTextFontSizePx', 'rankFont',
+];
+
+const CURSOR_EFFECT_KEYS: (keyof StyleMeterConfig)[] = [
+    'ranks', 'scoredSchemes', 'lineHeightPx', 'effectFloatingNumbers', 'effectRankUpBurst', 'effectShake',
+    'effectShakeRanks', 'effectsMaxIntensity',
+];
+
+const SESSION_KEYS: (keyof StyleMeterConfig)[] = [
+    'ranks', 'maxScore',
+];
+
+const AUTO_PAUSE_KEYS: (keyof StyleMeterConfig)[] = [
+    'pauseWhenUnfocused', 'pauseWhileDebugging',
+];
+
+const MUSIC_KEYS: (keyof StyleMeterConfig)[] = [
+    'musicFilepath', 'musicBackend', 'musicLayers',
+];
+
+const SOUND_EFFECT_KEYS: (keyof StyleMeterConfig)[] = [
+    'rankUpSounds', 'rankDownSound', 'comboBreakSound',
+];
+
+const COMMIT_KEYS: (keyof StyleMeterConfig)[] = [
+    'ranks', 'commitBonus', 'commitBonusMaxLines', 'commitRankStamp',
+];
+
+const ACHIEVEMENT_KEYS: (keyof StyleMeterConfig)[] = [
+    'ranks', 'achievements', 'scoredSchemes',
+];
+
+
+function _changed(prev: StyleMeterConfig, next: StyleMeterConfig, keys: (keyof StyleMeterConfig)[]): boolean {
+    return keys.some(key => JSON.stringify(prev[key]) !== JSON.stringify(next[key]));
+}
+
+
+function _disposeAll(disposables: vscode.Disposable[]) {
+    disposables.forEach(d => d.dispose());
+    disposables.length = 0;
+}
+
+
+/**
+ * Wires a score keeper up to everything that feeds it or shows it.
+ */
+export class StyleMeter {
+    private _config: StyleMeterConfig;
+    private _scoreKeeper: ScoreKeeper;
+    private _sessionRecorder: SessionRecorder;
+    private _autoPause: AutoPause;
+    private _hud?: WebviewRenderer;
+    private _cursorEffects?: CursorEffects;
+    private _musicPlayer?: MusicPlayer;
+    private _coordinator?: WindowCoordinator;
+    private _soundEffects?: SoundEffects;
+    private _achievementTracker: AchievementTracker;
+    private _commitTracker: CommitTracker;
+    private _disposed = false;
+
+    // scoring sources and their subscriptions
+    private _sources: vscode.Disposable[] = [];
+
+    private _renderers: StyleRenderer[] = [];
+
+    constructor(config: StyleMeterConfig, private readonly _context: vscode.ExtensionContext,
+            private readonly _exporter: SessionExporter) {
+        this._config = config;
+        this._scoreKeeper = new ScoreKeeper(config);
+        this._sessionRecorder = new SessionRecorder(config, this._scoreKeeper, this._context.globalState,
+            getSessionsFolder(this._context));
+        this._createSources();
+        this._createRenderers();
+        this._createCursorEffects();
+        if (config.webviewHud) {
+            this.showHud();
+        }
+
+        // after the renderers, so they show if it starts paused
+        this._autoPause = new AutoPause(config, this._scoreKeeper);
+
+        this._createMusicPlayer();
+        this._createSoundEffects();
+        this._achievementTracker = this._createAchievementTracker();
+        this._commitTracker = this._createCommitTracker();
+    }
+
+    get config() {
+        return this._config;
+    }
+
+    get scoreKeeper() {
+        return this._scoreKeeper;
+    }
+
+    /**
+     * The session in progress, as of the last save.
+     */
+    get session(): SessionRecord {
+        return this._sessionRecorder.session;
+    }
+
+    /**
+     * Apply new settings, rebuilding only the components whose settings changed.
+     */
+    public updateConfig(config: StyleMeterConfig) {
+        const prev = this._config;
+        this._config = config;
+
+        this._scoreKeeper.updateConfig(config);
+
+        if (_changed(prev, config, SESSION_KEYS)) {
+            // the session is recorded against a rank ladder, so a new ladder starts a new session
+            this._endSession(prev);
+            this._sessionRecorder = new SessionRecorder(config, this._scoreKeeper, this._context.globalState,
+                getSessionsFolder(this._context));
+        }
+
+        if (_changed(prev, config, SOURCE_KEYS)) {
+            _disposeAll(this._sources);
+            this._createSources();
+        }
+
+        if (_changed(prev, config, RENDERER_KEYS)) {
+            _disposeAll(this._renderers);
+            this._createRenderers();
+        }
+
+        if (_changed(prev, config, CURSOR_EFFECT_KEYS)) {
+            if (this._cursorEffects) {
+                this._cursorEffects.dispose();
+                this._cursorEffects = undefined;
+            }
+            this._createCursorEffects();
+        }
+
+        if (_changed(prev, config, HUD_KEYS)) {
+            const hudOpen = this._hud !== undefined && !this._hud.disposed;
+            if (this._hud) {
+                this._hud.dispose();
+                this._hud = undefined;
+            }
+            if (config.webviewHud || (hudOpen && !_changed(prev, config, ['webviewHud']))) {
+                this.showHud();
+            }
+        }
+
+        if (_changed(prev, config, AUTO_PAUSE_KEYS)) {
+            this._autoPause.dispose();
+            this._autoPause = new AutoPause(config, this._scoreKeeper);
+        }
+
+        if (_changed(prev, config, MUSIC_KEYS)) {
+            if (this._musicPlayer) {
+                this._musicPlayer.dispose();
+                this._musicPlayer = undefined;
+            }
+
+            // let a window that has music own it
+            if (this._coordinator && getMusicLayers(config).length === 0) {
+                this._coordinator.dispose();
+                this._coordinator = undefined;
+            }
+            this._createMusicPlayer();
+        } else if (this._musicPlayer) {
+            this._musicPlayer.updateConfig(config);
+        }
+
+        if (_changed(prev, config, SOUND_EFFECT_KEYS)) {
+            if (this._soundEffects) {
+                this._soundEffects.dispose();
+                this._soundEffects = undefined;
+            }
+            this._createSoundEffects();
+        } else if (this._soundEffects) {
+            this._soundEffects.config = config;
+        }
+
+        if (_changed(prev, config, ACHIEVEMENT_KEYS)) {
+            this._achievementTracker.dispose();
+            this._achievementTracker = this._createAchievementTracker();
+        }
+
+        if (_changed(prev, config, COMMIT_KEYS)) {
+            this._commitTracker.dispose();
+            this._commitTracker = this._createCommitTracker();
+        }
+    }
+
+    /**
+     * Open the webview HUD in its own editor column, or bring it back if it is already open.
+     */
+    public showHud() {
+        if (this._hud && !this._hud.disposed) {
+            this._hud.reveal();
+            return;
+        }
+        this._hud = new WebviewRenderer(this._config, this._scoreKeeper);
+    }
+
+    /**
+     * Skip to the next music track. Returns false if there is no other track to skip to.
+     */
+    public nextTrack(): boolean {
+        return this._musicPlayer !== undefined && this._musicPlayer.nextTrack();
+    }
+
+    /**
+     * The music files playing right now.
+     */
+    public nowPlaying(): string[] {
+        return this._musicPlayer ? this._musicPlayer.nowPlaying : [];
+    }
+
+    /**
+     * Add the peak rank since the last commit as a trailer to the commit messages being written.
+     * Returns the number of messages stamped.
+     */
+    public stampRankTrailer(): number {
+        return this._commitTracker.stampTrailers();
+    }
+
+    public saveSession(): Thenable<void> {
+        return this._sessionRecorder.save();
+    }
+
+    /**
+     * @returns a promise for the final session export, which the extension host should wait for when closing.
+     * Its post is only queued, for the retry timer or the next activation to send, so closing isn't held up.
+     */
+    public dispose(): Promise<void> {
+        if (this._disposed) {
+            return Promise.resolve();
+        }
+        this._disposed = true;
+
+        // end the session before disposing the score keeper so the recorder can read the final score
+        const exported = this._endSession(this._config, false);
+        this._achievementTracker.dispose();
+        this._commitTracker.dispose();
+        this._autoPause.dispose();
+        _disposeAll(this._sources);
+        _disposeAll(this._renderers);
+        if (this._cursorEffects) {
+            this._cursorEffects.dispose();
+        }
+        if (this._hud) {
+            this._hud.dispose();
+        }
+        if (this._musicPlayer) {
+            this._musicPlayer.dispose();
+        }
+        if (this._coordinator) {
+            this._coordinator.dispose();
+        }
+        if (this._soundEffects) {
+            this._soundEffects.dispose();
+        }
+        this._scoreKeeper.dispose();
+        return exported;
+    }
+
+    // stop recording the session and export it, if it's worth keeping
+    private async _endSession(config: StyleMeterConfig, send = true) {
+        this._sessionRecorder.dispose();
+        const session = this._sessionRecorder.session;
+        if (session.peakRankIndex >= 0) {
+            await this._exporter.export(session, config, config.exportFolder, send);
+        }
+    }
+
+    private _createSources() {
+        for (let source of createScoringSources(this._config)) {
+            this._sources.push(source);
+            this._sources.push(this._scoreKeeper.addSource(source));
+        }
+    }
+
+    private _createRenderers() {
+        this._renderers.push(...createRenderers(this._config, this._scoreKeeper));
+    }
+
+    private _createCursorEffects() {
+        if (hasCursorEffects(this._config)) {
+            this._cursorEffects = new CursorEffects(this._config, this._scoreKeeper);
+        }
+    }
+
+    // only one window plays music, so only add a music player once this window owns it
+    private _createMusicPlayer() {
+        if (getMusicLayers(this._config).length === 0) {
+            return;
+        }
+        if (!this._coordinator) {
+            const storagePath = (this._context as { globalStoragePath?: string }).globalStoragePath || os.tmpdir();
+            this._coordinator = new WindowCoordinator(this._scoreKeeper, storagePath);
+            this._coordinator.onDidBecomeOwner(this._createMusicPlayer, this);
+        }
+        if (!this._coordinator.isOwner || this._musicPlayer || this._disposed) {
+            return;
+        }
+
+        // the music follows the most active window
+        try {
+            this._musicPlayer = new MusicPlayer(this._config, this._coordinator);
+        } catch (err) {
+            vscode.window.showWarningMessage(`Style Meter music could not be played: ${err.message}`);
+        }
+    }
+
+    // sound effects play even without music
+    private _createSoundEffects() {
+        if (hasSoundEffects(this._config)) {
+            this._soundEffects = new SoundEffects(this._config, this._scoreKeeper);
+        }
+    }
+
+    private _createAchievementTracker(): AchievementTracker {
+        const tracker = new AchievementTracker(this._config, this._scoreKeeper, this._context.globalState);
+        tracker.onUnlock(this._onAchievementUnlock, this);
+        return tracker;
+    }
+
+    private _createCommitTracker(): CommitTracker {
+        const tracker = new CommitTracker(this._config, this._scoreKeeper);
+        tracker.onCommit(this._onCommit, this);
+        return tracker;
+    }
+
+    private _onCommit(event: CommitEvent) {
+        this._sessionRecorder.addCommit(event.commit);
+    }
+
+    private _onAchievementUnlock(event: AchievementUnlockEvent) {
+        const achievement = event.achievement;
+        if (this._hud && !this._hud.disposed) {
+            this._hud.showAchievement(achievement);
+        }
+        vscode.window.showInformationMessage(
+            `Style Meter achievement unlocked: ${achievement.name}. ${achievement.description}`);
+    }
+}
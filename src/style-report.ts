@@ -0,0 +1,302 @@
+import * as vscode from 'vscode';
+import { loadSessions } from './session';
+
+
+/**
+ * How many session charts to draw at most. Older sessions are only listed in the history.
+ */
+const MAX_CHARTS = 20;
+
+/**
+ * How many commits to list at most, newest first.
+ */
+const MAX_COMMITS = 100;
+
+
+/**
+ * A webview that shows the style history of stored sessions.
+ * Only one report is open at a time. Showing it again refreshes it.
+ */
+export class StyleReport {
+    private static _current?: StyleReport;
+
+    private _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param folder the folder that session samples are stored in
+     */
+    public static show(memento: vscode.Memento, folder: string) {
+        if (StyleReport._current) {
+            StyleReport._current._update(memento, folder);
+            StyleReport._current._panel.reveal();
+            return;
+        }
+        StyleReport._current = new StyleReport(memento, folder);
+    }
+
+    private constructor(memento: vscode.Memento, folder: string) {
+        this._panel = vscode.window.createWebviewPanel('styleMeter.report', 'Style Report',
+            vscode.ViewColumn.Active, { enableScripts: true });
+        this._panel.onDidDispose(this.dispose, this, this._disposables);
+        this._update(memento, folder);
+    }
+
+    public dispose(): void {
+        StyleReport._current = undefined;
+        for (let d of this._disposables) {
+            d.dispose();
+        }
+        this._panel.dispose();
+    }
+
+    private _update(memento: vscode.Memento, folder: string) {
+        this._panel.webview.html = _getHtml(JSON.stringify(loadSessions(memento, folder)));
+    }
+}
+
+
+function _getNonce(): string {
+    return Math.random().toString(36).slice(2) + Math.random().toString(36).slice(2);
+}
+
+
+function _getHtml(sessionsJson: string): string {
+    const nonce = _getNonce();
+
+    // keep the data from closing the script tag
+    const data = sessionsJson.replace(/</g, '\\u003c');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy"
+        content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <title>Style Report</title>
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+        h1, h2 { font-family: georgia, serif; font-style: italic; }
+        table { border-collapse: collapse; margin-bottom: 2em; }
+        th, td { text-align: left; padding: 4px 12px; border-bottom: 1px solid var(--vscode-panel-border); }
+        select { margin-right: 1em; }
+        .chart { margin-bottom: 1.5em; }
+        .chart polyline { fill: none; stroke: hsl(348, 100%, 70%); stroke-width: 2; }
+        .chart line { stroke: var(--vscode-panel-border); }
+        .chart text { fill: var(--vscode-descriptionForeground); font-size: 10px; }
+        .empty { font-style: italic; }
+    </style>
+</head>
+<body>
+    <h1>Style Report</h1>
+    <label>Workspace <select id="workspace"></select></label>
+    <label>Language <select id="language"></select></label>
+    <h2>History</h2>
+    <div id="history"></div>
+    <h2>Commits</h2>
+    <div id="commits"></div>
+    <h2>Rank over time</h2>
+    <div id="charts"></div>
+    <script nonce="${nonce}">
+        const sessions = ${data};
+        const maxCharts = ${MAX_CHARTS};
+        const maxCommits = ${MAX_COMMITS};
+
+        function unique(values) {
+            return values.filter(function (v, i) { return v && values.indexOf(v) === i; }).sort();
+        }
+
+        function fillSelect(id, label, values) {
+            const select = document.getElementById(id);
+            select.innerHTML = '';
+            [''].concat(values).forEach(function (value) {
+                const option = document.createElement('option');
+                option.value = value;
+                option.textContent = value || label;
+                select.appendChild(option);
+            });
+            select.addEventListener('change', render);
+        }
+
+        function minutes(ms) {
+            return Math.round(ms / 60000) + ' min';
+        }
+
+        function cell(row, text) {
+            const td = document.createElement('td');
+            td.textContent = text;
+            row.appendChild(td);
+        }
+
+        function filtered() {
+            const workspace = document.getElementById('workspace').value;
+            const language = document.getElementById('language').value;
+            return sessions.filter(function (s) {
+                return (!workspace || s.workspace === workspace) &&
+                    (!language || s.languages.indexOf(language) >= 0);
+            });
+        }
+
+        function renderHistory(list) {
+            const days = {};
+            list.forEach(function (s) {
+                const day = new Date(s.start).toLocaleDateString();
+                const d = days[day] = days[day] || {
+                    sessions: 0, time: 0, peak: -1, peakText: '-', ups: 0, downs: 0, ranks: {}
+                };
+                d.sessions++;
+                d.time += s.end - s.start;
+                d.ups += s.rankUps;
+                d.downs += s.rankDowns;
+                if (s.peakRankIndex > d.peak) {
+                    d.peak = s.peakRankIndex;
+                    d.peakText = s.ranks[s.peakRankIndex];
+                }
+                Object.keys(s.timeInRankMs).forEach(function (rank) {
+                    d.ranks[rank] = (d.ranks[rank] || 0) + s.timeInRankMs[rank];
+                });
+            });
+
+            const container = document.getElementById('history');
+            container.innerHTML = '';
+            const dayNames = Object.keys(days);
+            if (dayNames.length === 0) {
+                container.innerHTML = '<p class="empty">No sessions recorded yet.</p>';
+                return;
+            }
+
+            const table = document.createElement('table');
+            const head = document.createElement('tr');
+            ['Day', 'Sessions', 'Time', 'Peak rank', 'Rank-ups', 'Rank-downs', 'Time in rank']
+                .forEach(function (title) {
+                    const th = document.createElement('th');
+                    th.textContent = title;
+                    head.appendChild(th);
+                });
+            table.appendChild(head);
+
+            dayNames.reverse().forEach(function (day) {
+                const d = days[day];
+                const row = document.createElement('tr');
+                cell(row, day);
+                cell(row, d.sessions);
+                cell(row, minutes(d.time));
+                cell(row, d.peakText);
+                cell(row, d.ups);
+                cell(row, d.downs);
+                cell(row, Object.keys(d.ranks).map(function (rank) {
+                    return rank + ': ' + minutes(d.ranks[rank]);
+                }).join(', '));
+                table.appendChild(row);
+            });
+            container.appendChild(table);
+        }
+
+        function renderCommits(list) {
+            const commits = [];
+            list.forEach(function (s) {
+                (s.commits || []).forEach(function (c) {
+                    commits.push({ commit: c, rank: c.rankIndex >= 0 ? s.ranks[c.rankIndex] : '-' });
+                });
+            });
+            commits.sort(function (a, b) { return b.commit.time - a.commit.time; });
+
+            const container = document.getElementById('commits');
+            container.innerHTML = '';
+            if (commits.length === 0) {
+                container.innerHTML = '<p class="empty">No commits recorded yet.</p>';
+                return;
+            }
+
+            const table = document.createElement('table');
+            const head = document.createElement('tr');
+            ['Time', 'Repository', 'Commit', 'Peak rank', 'Lines', 'Style'].forEach(function (title) {
+                const th = document.createElement('th');
+                th.textContent = title;
+                head.appendChild(th);
+            });
+            table.appendChild(head);
+
+            commits.slice(0, maxCommits).forEach(function (entry) {
+                const c = entry.commit;
+                const row = document.createElement('tr');
+                cell(row, new Date(c.time).toLocaleString());
+                cell(row, c.repository);
+                cell(row, c.hash.slice(0, 7) + ' ' + c.message);
+                cell(row, entry.rank);
+                cell(row, c.lines);
+                cell(row, '+' + c.style.toFixed(1));
+                table.appendChild(row);
+            });
+            container.appendChild(table);
+        }
+
+        function renderCharts(list) {
+            const language = document.getElementById('language').value;
+            const container = document.getElementById('charts');
+            container.innerHTML = '';
+
+            const width = 600;
+            const height = 120;
+            const left = 40;
+            list.slice(-maxCharts).reverse().forEach(function (s) {
+                const samples = s.samples.filter(function (p) { return !language || p.language === language; });
+                if (samples.length < 2) {
+                    return;
+                }
+
+                const duration = Math.max(s.end - s.start, 1);
+                const levels = s.ranks.length;
+                const x = function (t) { return left + (t - s.start) / duration * (width - left); };
+                const y = function (rankIndex) { return height - 10 - (rankIndex + 1) / levels * (height - 20); };
+
+                let svg = '<svg width="' + width + '" height="' + height + '">';
+                s.ranks.forEach(function (rank, i) {
+                    svg += '<line x1="' + left + '" x2="' + width + '" y1="' + y(i) + '" y2="' + y(i) + '"/>';
+                    svg += '<text x="0" y="' + (y(i) + 3) + '"></text>';
+                });
+                let points = '';
+                samples.forEach(function (p, i) {
+                    // draw steps, since the rank holds until the next sample
+                    if (i > 0) {
+                        points += x(p.time) + ',' + y(samples[i - 1].rankIndex) + ' ';
+                    }
+                    points += x(p.time) + ',' + y(p.rankIndex) + ' ';
+                });
+                svg += '<polyline points="' + points + '"/></svg>';
+
+                const chart = document.createElement('div');
+                chart.className = 'chart';
+                const title = document.createElement('div');
+                title.textContent = new Date(s.start).toLocaleString() + ' (' + minutes(duration) + ')' +
+                    (s.workspace ? ' in ' + s.workspace : '');
+                chart.appendChild(title);
+                chart.insertAdjacentHTML('beforeend', svg);
+
+                // rank names are user text, so set them as text instead of html
+                const labels = chart.querySelectorAll('text');
+                s.ranks.forEach(function (rank, i) { labels[i].textContent = rank; });
+
+                container.appendChild(chart);
+            });
+
+            if (container.children.length === 0) {
+                container.innerHTML = '<p class="empty">Nothing to chart.</p>';
+            }
+        }
+
+        function render() {
+            const list = filtered();
+            renderHistory(list);
+            renderCommits(list);
+            renderCharts(list);
+        }
+
+        fillSelect('workspace', 'All workspaces', unique(sessions.map(function (s) { return s.workspace; })));
+        fillSelect('language', 'All languages',
+            unique([].concat.apply([], sessions.map(function (s) { return s.languages; }))));
+        render();
+    </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { defaultStyleMeterConfig } from '../config';
+import { BUILTIN_ACHIEVEMENTS, getAchievements } from '../achievements';
+import { createConfig } from './fixtures';
+
+
+suite('getAchievements', () => {
+    test('includes every built in achievement with the default ranks', () => {
+        assert.deepStrictEqual(getAchievements(createConfig()), BUILTIN_ACHIEVEMENTS);
+    });
+
+    test('replaces built in achievements with ones from settings with the same id', () => {
+        const combo = { id: 'combo100', name: 'Combo', description: 'Reach a combo of 50.', minCombo: 50 };
+        const achievements = getAchievements(createConfig({ achievements: [combo] }));
+        assert.strictEqual(achievements.length, BUILTIN_ACHIEVEMENTS.length);
+        assert.strictEqual(achievements.filter(achievement => achievement.id === 'combo100')[0], combo);
+    });
+
+    test('hides achievements for ranks that are not in the rank ladder', () => {
+        const ranks = defaultStyleMeterConfig.ranks.filter(rank => rank.text !== 'SSS');
+        const ids = getAchievements(createConfig({ ranks })).map(achievement => achievement.id);
+        assert.deepStrictEqual(ids, ['firstS', 'holdS10m', 'newLanguageA', 'combo100']);
+    });
+});
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { ChangeInfo, RepeatTracker, classifyChange } from '../sources/change-filter';
+import { createConfig } from './fixtures';
+
+
+// a single character typed with one cursor in the active editor
+function createInfo(overrides: Partial<ChangeInfo> = {}): ChangeInfo {
+    return {
+        scheme: 'file',
+        isActiveDocument: true,
+        cursorCount: 1,
+        changes: [{ text: 'a', rangeLength: 0 }],
+        ...overrides,
+    };
+}
+
+
+suite('classifyChange', () => {
+    test('treats typing in the active editor as the user', () => {
+        assert.strictEqual(classifyChange(createInfo(), createConfig()), 'user');
+        assert.strictEqual(classifyChange(createInfo({ scheme: 'untitled' }), createConfig()), 'user');
+    });
+
+    test('ignores schemes that are not scored', () => {
+        const config = createConfig();
+        assert.strictEqual(classifyChange(createInfo({ scheme: 'output' }), config), 'ignoredScheme');
+        assert.strictEqual(classifyChange(createInfo({ scheme: 'git' }), config), 'ignoredScheme');
+        assert.strictEqual(classifyChange(createInfo({ scheme: 'output' }), createConfig({
+            scoredSchemes: ['file', 'output'],
+        })), 'user');
+    });
+
+    test('ignores undo and redo unless turned off', () => {
+        const config = createConfig();
+        assert.strictEqual(classifyChange(createInfo({ reason: 1 }), config), 'undoRedo');
+        assert.strictEqual(classifyChange(createInfo({ reason: 2 }), config), 'undoRedo');
+        assert.strictEqual(classifyChange(createInfo({ reason: 1 }), createConfig({ ignoreUndoRedo: false })), 'user');
+    });
+
+    test('treats changes to other documents as background', () => {
+        const info = createInfo({ isActiveDocument: false, cursorCount: 0 });
+        assert.strictEqual(classifyChange(info, createConfig()), 'background');
+    });
+
+    test('treats more changes than cursors as bulk', () => {
+        const changes = [{ text: 'a', rangeLength: 0 }, { text: 'a', rangeLength: 0 }, { text: 'a', rangeLength: 0 }];
+        assert.strictEqual(classifyChange(createInfo({ changes }), createConfig()), 'bulk');
+        assert.strictEqual(classifyChange(createInfo({ changes, cursorCount: 3 }), createConfig()), 'user');
+    });
+
+    test('treats replacing at least the bulk edit length as bulk', () => {
+        const config = createConfig({ bulkEditMinLength: 1000 });
+        assert.strictEqual(classifyChange(createInfo({ changes: [{ text: '', rangeLength: 999 }] }), config), 'user');
+        assert.strictEqual(classifyChange(createInfo({ changes: [{ text: '', rangeLength: 1000 }] }), config), 'bulk');
+        assert.strictEqual(classifyChange(createInfo({ changes: [{ text: '', rangeLength: 1000 }] }), createConfig({
+            ignoreBulkEdits: false,
+        })), 'user');
+    });
+});
+
+
+suite('RepeatTracker', () => {
+    function type(tracker: RepeatTracker, texts: string[], cursorCount = 1): number[] {
+        return texts.map(text => tracker.next(createInfo({
+            cursorCount,
+            changes: Array.from({ length: cursorCount }, () => ({ text, rangeLength: 0 })),
+        })));
+    }
+
+    test('diminishes the returns of a character repeated past the threshold', () => {
+        const tracker = new RepeatTracker(createConfig({ repeatThreshold: 3, repeatDecay: 0.5 }));
+        assert.deepStrictEqual(type(tracker, ['a', 'a', 'a', 'a', 'a']), [1, 1, 1, 0.5, 0.25]);
+    });
+
+    test('starts over on a different character', () => {
+        const tracker = new RepeatTracker(createConfig({ repeatThreshold: 3, repeatDecay: 0.5 }));
+        assert.deepStrictEqual(type(tracker, ['a', 'a', 'a', 'a', 'b', 'a']), [1, 1, 1, 0.5, 1, 1]);
+    });
+
+    test('never diminishes longer text', () => {
+        const tracker = new RepeatTracker(createConfig({ repeatThreshold: 1, repeatDecay: 0.5 }));
+        assert.deepStrictEqual(type(tracker, ['ab', 'ab', 'ab']), [1, 1, 1]);
+    });
+
+    test('counts the same character typed at every cursor once', () => {
+        const tracker = new RepeatTracker(createConfig({ repeatThreshold: 2, repeatDecay: 0.5 }));
+        assert.deepStrictEqual(type(tracker, ['a', 'a', 'a'], 3), [1, 1, 0.5]);
+    });
+});
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { defaultStyleMeterConfig } from '../config';
+import { EditLogEntry, formatEditLogEntry, parseEditLog, replayEditLog } from '../edit-log';
+import { createScoringConfig } from './fixtures';
+
+
+suite('parseEditLog', () => {
+    test('reads back formatted entries', () => {
+        const entries: EditLogEntry[] = [
+            { t: 1000, size: 1, kind: 'user' },
+            { t: 2000, size: 50, kind: 'bulk' },
+        ];
+        assert.deepStrictEqual(parseEditLog(entries.map(formatEditLogEntry).join('')), entries);
+    });
+
+    test('skips blank and garbled lines', () => {
+        const text = [
+            '{"t":1000,"size":1,"kind":"user"}',
+            '',
+            '{"t":2000,"size":1,"ki',
+            'not json',
+            '{"t":"3000","size":1,"kind":"user"}',
+            '{"t":4000,"kind":"user"}',
+            '{"t":5000,"size":2,"kind":"user"}',
+        ].join('\r\n');
+        assert.deepStrictEqual(parseEditLog(text), [
+            { t: 1000, size: 1, kind: 'user' },
+            { t: 5000, size: 2, kind: 'user' },
+        ]);
+    });
+
+    test('sorts entries by time', () => {
+        const text = '{"t":2000,"size":2,"kind":"user"}\n{"t":1000,"size":1,"kind":"user"}\n';
+        assert.deepStrictEqual(parseEditLog(text).map(entry => entry.t), [1000, 2000]);
+    });
+});
+
+
+suite('replayEditLog', () => {
+    test('returns empty stats for an empty log', () => {
+        const stats = replayEditLog([], createScoringConfig(), 1000);
+        assert.strictEqual(stats.edits, 0);
+        assert.strictEqual(stats.durationMs, 0);
+        assert.strictEqual(stats.peakRankIndex, -1);
+        assert.deepStrictEqual(stats.samples, []);
+    });
+
+    test('scores user edits and totals the time in each rank', () => {
+        const stats = replayEditLog([
+            { t: 10000, size: 15, kind: 'user' },
+            { t: 11000, size: 10, kind: 'user' },
+            { t: 12000, size: 100, kind: 'bulk' },
+        ], createScoringConfig(), 1000);
+
+        assert.strictEqual(stats.edits, 3);
+        assert.strictEqual(stats.durationMs, 2000);
+        assert.strictEqual(stats.peakScore, 25);
+        assert.strictEqual(stats.peakRankIndex, 1);
+        assert.strictEqual(stats.bestCombo, 2);
+
+        // a second in D before the next edit, then a second in C, and nothing for the bulk edit
+        assert.deepStrictEqual(stats.timeInRankMs, [0, 1000, 1000, 0, 0, 0, 0, 0]);
+        assert.deepStrictEqual(stats.firstReachedMs,
+            [0, 0, 1000, undefined, undefined, undefined, undefined, undefined]);
+        assert.deepStrictEqual(stats.samples.map(sample => sample.t), [0, 1000, 2000]);
+        assert.deepStrictEqual(stats.samples.map(sample => sample.score), [15, 15, 25]);
+    });
+
+    test('counts the time after the last tick in the rank the log ends on', () => {
+        const stats = replayEditLog([
+            { t: 0, size: 15, kind: 'user' },
+            { t: 1200, size: 0, kind: 'undoRedo' },
+        ], createScoringConfig({ degradePeriodMs: 500 }), 1000);
+        assert.strictEqual(stats.durationMs, 1200);
+        assert.deepStrictEqual(stats.timeInRankMs, [0, 1200, 0, 0, 0, 0, 0, 0]);
+    });
+
+    test('caps edits at the max change reward and weights them like typing', () => {
+        const config = createScoringConfig({
+            maxChangeReward: 5,
+            sourceWeights: { ...defaultStyleMeterConfig.sourceWeights, typing: 2 },
+        });
+        const stats = replayEditLog([{ t: 0, size: 50, kind: 'user' }], config, 1000);
+        assert.strictEqual(stats.peakScore, 10);
+    });
+
+    test('decays between edits', () => {
+        const config = createScoringConfig({ decayRatePps: 2 });
+        const stats = replayEditLog([
+            { t: 0, size: 20, kind: 'user' },
+            { t: 2000, size: 0, kind: 'undoRedo' },
+        ], config, 1000);
+
+        // one point lost on each of the four ticks
+        assert.deepStrictEqual(stats.samples.map(sample => sample.score), [20, 18, 16]);
+    });
+});
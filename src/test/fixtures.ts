@@ -0,0 +1,25 @@
+import { StyleMeterConfig, defaultStyleMeterConfig } from '../config';
+
+
+/**
+ * The default config with some settings changed.
+ */
+export function createConfig(overrides: Partial<StyleMeterConfig> = {}): StyleMeterConfig {
+    return { ...defaultStyleMeterConfig, ...overrides };
+}
+
+
+/**
+ * A config where every style point awarded counts in full: no rank scaling, combo bonus,
+ * decay or cap on the reward for an edit, unless a test turns them on.
+ */
+export function createScoringConfig(overrides: Partial<StyleMeterConfig> = {}): StyleMeterConfig {
+    return createConfig({
+        difficultyFactor: 1,
+        comboMultiplierStep: 0,
+        decayCurve: 'linear',
+        decayRatePps: 0,
+        maxChangeReward: 100,
+        ...overrides,
+    });
+}
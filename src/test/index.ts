@@ -0,0 +1,12 @@
+//
+// Runs every *.test.js file under out/test in the extension host, from `npm test`
+// or the Extension Tests launch configuration.
+//
+import * as testRunner from 'vscode/lib/testrunner';
+
+testRunner.configure({
+    ui: 'tdd',
+    useColors: true,
+});
+
+module.exports = testRunner;
@@ -0,0 +1,223 @@
+import * as assert from 'assert';
+import { Clock, ComboChangeEvent, RankChangeEvent, ScoringEngine } from '../scoring-engine';
+import { createScoringConfig } from './fixtures';
+
+
+/**
+ * A clock that only moves when told to.
+ */
+class FakeClock implements Clock {
+    public time = 0;
+
+    public now(): number {
+        return this.time;
+    }
+}
+
+
+suite('ScoringEngine', () => {
+    let clock: FakeClock;
+
+    setup(() => {
+        clock = new FakeClock();
+    });
+
+    test('scales awards down at higher ranks', () => {
+        const engine = new ScoringEngine(createScoringConfig({ difficultyFactor: 4 }), clock);
+        engine.award({ points: 15, reason: 'test' });
+        assert.strictEqual(engine.score(), 15);
+        assert.strictEqual(engine.rankIndex(), 0);
+
+        // 1 of 7 ranks in, so the award is divided by 1/7 * (4 - 1) + 1
+        engine.award({ points: 8, reason: 'test' });
+        assert.ok(Math.abs(engine.score() - (15 + 8 * 7 / 10)) < 1e-9);
+    });
+
+    test('scales awards by the gain factor', () => {
+        const engine = new ScoringEngine(createScoringConfig({ gainFactor: 2 }), clock);
+        engine.award({ points: 5, reason: 'test' });
+        assert.strictEqual(engine.score(), 10);
+    });
+
+    test('does not scale deductions', () => {
+        const engine = new ScoringEngine(createScoringConfig({ difficultyFactor: 4, gainFactor: 2 }), clock);
+        engine.award({ points: 20, reason: 'test' });
+        const score = engine.score();
+        engine.award({ points: -3, reason: 'test' });
+        assert.strictEqual(engine.score(), score - 3);
+    });
+
+    test('keeps the score between 0 and the max score', () => {
+        const engine = new ScoringEngine(createScoringConfig(), clock);
+        engine.award({ points: 1000, reason: 'test' });
+        assert.strictEqual(engine.score(), 80);
+        assert.strictEqual(engine.rankIndex(), 6);
+
+        engine.award({ points: -1000, reason: 'test' });
+        assert.strictEqual(engine.score(), 0);
+        assert.strictEqual(engine.rankIndex(), -1);
+    });
+
+    test('grows the combo for gains within the combo window', () => {
+        const combos: ComboChangeEvent[] = [];
+        const engine = new ScoringEngine(createScoringConfig({ comboWindowMs: 1500 }), clock, {
+            onComboChange: event => combos.push(event),
+        });
+        for (let time of [0, 1000, 2500]) {
+            clock.time = time;
+            engine.award({ points: 1, reason: 'test' });
+        }
+        assert.strictEqual(engine.combo(), 3);
+
+        // a gain after the window starts a new combo
+        clock.time = 4001;
+        engine.award({ points: 1, reason: 'test' });
+        assert.strictEqual(engine.combo(), 1);
+        assert.strictEqual(engine.bestCombo(), 3);
+        assert.deepStrictEqual(combos.map(event => event.combo), [1, 2, 3, 1]);
+    });
+
+    test('multiplies gains by the combo, up to the max multiplier', () => {
+        const config = createScoringConfig({ comboWindowMs: 1500, comboMultiplierStep: 0.5, maxComboMultiplier: 2 });
+        const engine = new ScoringEngine(config, clock);
+        for (let time of [0, 1000, 2000, 3000]) {
+            clock.time = time;
+            engine.award({ points: 1, reason: 'test' });
+        }
+        assert.strictEqual(engine.score(), 1 + 1.5 + 2 + 2);
+    });
+
+    test('breaks the combo on a tick after the combo window', () => {
+        const engine = new ScoringEngine(createScoringConfig({ comboWindowMs: 1500 }), clock);
+        engine.award({ points: 1, reason: 'test' });
+
+        clock.time = 1500;
+        engine.tick();
+        assert.strictEqual(engine.combo(), 1);
+
+        clock.time = 1501;
+        engine.tick();
+        assert.strictEqual(engine.combo(), 0);
+    });
+
+    test('drops to the bottom of the rank below', () => {
+        const ranks: RankChangeEvent[] = [];
+        const engine = new ScoringEngine(createScoringConfig(), clock, {
+            onRankChange: event => ranks.push(event),
+        });
+        engine.award({ points: 35, reason: 'test' });
+        assert.strictEqual(engine.rankIndex(), 2);
+
+        engine.award({ points: 0, reason: 'test', dropRank: true });
+        assert.strictEqual(engine.score(), 30);
+        assert.strictEqual(engine.rankIndex(), 1);
+
+        // deductions apply after the drop
+        engine.award({ points: -2, reason: 'test', dropRank: true });
+        assert.strictEqual(engine.score(), 18);
+        assert.strictEqual(engine.rankIndex(), 0);
+        assert.deepStrictEqual(ranks.map(event => event.rankIndex), [2, 1, 0]);
+    });
+
+    test('decays on each tick following the decay curve', () => {
+        const engine = new ScoringEngine(createScoringConfig({ decayRatePps: 2, degradePeriodMs: 500 }), clock);
+        engine.award({ points: 10, reason: 'test' });
+        clock.time = 500;
+        engine.tick();
+        assert.strictEqual(engine.score(), 9);
+    });
+
+    test('decays faster the longer the inactivity on the quadratic curve', () => {
+        const config = createScoringConfig({ decayCurve: 'quadratic', decayAccPps2: 2, degradePeriodMs: 500 });
+        const engine = new ScoringEngine(config, clock);
+        engine.award({ points: 50, reason: 'test' });
+
+        // 1000 ms inactive * 500 ms period * 2 / 1e6 points per ms squared
+        clock.time = 1000;
+        engine.tick();
+        assert.strictEqual(engine.score(), 49);
+
+        clock.time = 2000;
+        engine.tick();
+        assert.strictEqual(engine.score(), 47);
+    });
+
+    test('does not decay during the grace period', () => {
+        const config = createScoringConfig({ decayCurve: 'gracePeriod', decayGracePeriodMs: 3000, decayRatePps: 2 });
+        const engine = new ScoringEngine(config, clock);
+        engine.award({ points: 10, reason: 'test' });
+
+        clock.time = 2999;
+        engine.tick();
+        assert.strictEqual(engine.score(), 10);
+
+        clock.time = 3000;
+        engine.tick();
+        assert.strictEqual(engine.score(), 9);
+    });
+
+    test('ignores awards and ticks while paused', () => {
+        const engine = new ScoringEngine(createScoringConfig({ decayRatePps: 2 }), clock);
+        engine.award({ points: 10, reason: 'test' });
+        assert.strictEqual(engine.pause('manual'), true);
+        assert.strictEqual(engine.pause('unfocused'), false);
+
+        clock.time = 1000;
+        engine.award({ points: 10, reason: 'test' });
+        engine.tick();
+        assert.strictEqual(engine.score(), 10);
+
+        // every reason has to be resumed
+        assert.strictEqual(engine.resume('manual'), false);
+        assert.strictEqual(engine.paused(), true);
+        assert.strictEqual(engine.resume('unfocused'), true);
+        assert.strictEqual(engine.paused(), false);
+    });
+
+    test('leaves the paused time out of inactivity and the combo window', () => {
+        const config = createScoringConfig({
+            decayCurve: 'gracePeriod',
+            decayGracePeriodMs: 3000,
+            comboWindowMs: 1500,
+        });
+        const engine = new ScoringEngine(config, clock);
+        engine.award({ points: 10, reason: 'test' });
+
+        clock.time = 1000;
+        engine.pause('debugging');
+        clock.time = 11000;
+        engine.resume('debugging');
+
+        // only 1000 ms of inactivity counts, which is within the grace period
+        engine.tick();
+        assert.strictEqual(engine.score(), 10);
+        assert.strictEqual(engine.combo(), 1);
+
+        clock.time = 11500;
+        engine.award({ points: 1, reason: 'test' });
+        assert.strictEqual(engine.combo(), 2);
+    });
+
+    test('keeps the score within a new max score', () => {
+        const ranks: RankChangeEvent[] = [];
+        const engine = new ScoringEngine(createScoringConfig(), clock, {
+            onRankChange: event => ranks.push(event),
+        });
+        engine.award({ points: 75, reason: 'test' });
+        assert.strictEqual(engine.rankIndex(), 6);
+
+        engine.updateConfig(createScoringConfig({ maxScore: 40 }));
+        assert.strictEqual(engine.score(), 40);
+        assert.strictEqual(engine.rankIndex(), 2);
+        assert.deepStrictEqual(ranks.map(event => event.rankIndex), [6, 2]);
+    });
+
+    test('resets the score and combo', () => {
+        const engine = new ScoringEngine(createScoringConfig(), clock);
+        engine.award({ points: 30, reason: 'test' });
+        engine.reset();
+        assert.strictEqual(engine.score(), 0);
+        assert.strictEqual(engine.rankIndex(), -1);
+        assert.strictEqual(engine.combo(), 0);
+    });
+});
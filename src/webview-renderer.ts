@@ -0,0 +1,295 @@
+import * as vscode from 'vscode';
+import {
+    ComboChangeEvent, FlashEvent, PauseChangeEvent, RankChangeEvent, ScoreChangeEvent, ScoreKeeper
+} from './score-keeper';
+import { StyleMeterConfig } from './config';
+import { StyleRenderer } from './renderer';
+import { FLASH_TIMEOUT_MS, METER_COLOR_END, METER_COLOR_START, RANK_TEXT_TIMEOUT_MS } from './rank-decorator';
+import { getCssColor, getGradient, getRankProgress } from './rank';
+import { Achievement } from './achievements';
+
+
+/**
+ * The smallest combo worth showing.
+ */
+const MIN_DISPLAYED_COMBO = 2;
+
+
+/**
+ * How long an unlocked achievement stays on the HUD.
+ */
+const ACHIEVEMENT_DISPLAY_MS = 5000;
+
+
+/**
+ * Shows the style meter in a webview, where real CSS allows animations the decorations can't do.
+ * The webview is fed score keeper events with postMessage.
+ */
+export class WebviewRenderer implements StyleRenderer {
+    private _panel: vscode.WebviewPanel;
+    private _disposed = false;
+
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(public readonly config: StyleMeterConfig, private readonly _scoreKeeper: ScoreKeeper) {
+        this._panel = vscode.window.createWebviewPanel('styleMeter.hud', 'Style Meter',
+            { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+            { enableScripts: true, retainContextWhenHidden: true });
+        this._panel.webview.html = this._getHtml();
+
+        this._panel.onDidDispose(this.dispose, this, this._disposables);
+        this._scoreKeeper.onScoreChange(this._onScoreChange, this, this._disposables);
+        this._scoreKeeper.onRankChange(this._onRankChange, this, this._disposables);
+        this._scoreKeeper.onComboChange(this._onComboChange, this, this._disposables);
+        this._scoreKeeper.onPauseChange(this._onPauseChange, this, this._disposables);
+        this._scoreKeeper.onFlash(this._onFlash, this, this._disposables);
+    }
+
+    get disposed() {
+        return this._disposed;
+    }
+
+    /**
+     * Show the HUD in its own editor column.
+     */
+    public reveal() {
+        this._panel.reveal(vscode.ViewColumn.Beside, true);
+    }
+
+    /**
+     * Flash an unlocked achievement under the meter.
+     */
+    public showAchievement(achievement: Achievement) {
+        this._panel.webview.postMessage({ type: 'achievement', name: achievement.name });
+    }
+
+    public dispose(): void {
+        if (this._disposed) {
+            return;
+        }
+        this._disposed = true;
+        for (let d of this._disposables) {
+            d.dispose();
+        }
+        this._panel.dispose();
+    }
+
+    private _onScoreChange(event: ScoreChangeEvent) {
+        this._panel.webview.postMessage(this._getMeterMessage(event.rankIndex, event.score));
+    }
+
+    private _onRankChange(event: RankChangeEvent) {
+        this._panel.webview.postMessage({ type: 'rank', rankIndex: event.rankIndex });
+    }
+
+    private _onComboChange(event: ComboChangeEvent) {
+        const combo = event.combo >= MIN_DISPLAYED_COMBO ? event.combo : 0;
+        this._panel.webview.postMessage({ type: 'combo', combo });
+    }
+
+    private _onPauseChange(event: PauseChangeEvent) {
+        this._panel.webview.postMessage({ type: 'pause', paused: event.paused });
+    }
+
+    private _onFlash(event: FlashEvent) {
+        const color = getCssColor(event.points < 0 ? METER_COLOR_START : METER_COLOR_END);
+        this._panel.webview.postMessage({ type: 'flash', message: event.message, color });
+    }
+
+    private _getMeterMessage(rankIndex: number, score: number) {
+        const progress = rankIndex < 0 ? 0 :
+            Math.min(Math.max(getRankProgress(this.config.ranks, this.config.maxScore, rankIndex, score), 0), 1);
+        const color = getGradient(METER_COLOR_START, METER_COLOR_END, progress);
+        return { type: 'meter', progress, color: getCssColor(color) };
+    }
+
+    private _getHtml(): string {
+        const nonce = Math.random().toString(36).slice(2) + Math.random().toString(36).slice(2);
+        const ranks = this.config.ranks.map(rank => ({
+            text: rank.text,
+            smallText: rank.smallText,
+            color: getCssColor(rank.color),
+            smallColor: getCssColor(getGradient(rank.color, {h: rank.color.h, s: rank.color.s, l: 0}, .3)),
+        }));
+        const initial = {
+            ranks,
+            rankIndex: this._scoreKeeper.rankIndex(),
+            meter: this._getMeterMessage(this._scoreKeeper.rankIndex(), this._scoreKeeper.score()),
+            rankTextTimeoutMs: RANK_TEXT_TIMEOUT_MS,
+            flashTimeoutMs: FLASH_TIMEOUT_MS,
+            paused: this._scoreKeeper.paused(),
+            achievementDisplayMs: ACHIEVEMENT_DISPLAY_MS,
+        };
+
+        // keep user text from closing the script tag
+        const data = JSON.stringify(initial).replace(/</g, '\\u003c');
+        const font = this.config.rankFont.replace(/[^\w -]/g, '');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy"
+        content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <title>Style Meter</title>
+    <style>
+        html, body { height: 100%; margin: 0; overflow: hidden; }
+        #hud {
+            position: fixed;
+            top: 24px;
+            right: 24px;
+            font-family: ${font}, serif;
+            font-style: italic;
+            font-weight: bold;
+        }
+        #rank { white-space: nowrap; }
+        #letter {
+            display: inline-block;
+            font-size: ${this.config.rankLetterFontSizePx}px;
+            text-shadow: 1px 1px 10px;
+        }
+        #letter.slam { animation: slam 0.25s ease-in; }
+        #small {
+            font-size: ${this.config.rankTextFontSizePx}px;
+            text-shadow: 1px 1px 8px;
+            transition: opacity 0.6s ease-out;
+        }
+        #small.faded { opacity: 0; }
+        #meter-track { width: 100%; height: 6px; margin-top: 4px; }
+        #meter {
+            height: 100%;
+            border-radius: 2px;
+            transition: width 0.2s linear, background-color 0.2s linear;
+        }
+        #hud.paused { opacity: 0.4; }
+        #paused {
+            position: fixed;
+            top: 4px;
+            right: 24px;
+            font-family: ${font}, serif;
+            font-style: italic;
+            letter-spacing: 0.2em;
+            display: none;
+        }
+        #paused.visible { display: block; }
+        #combo { font-size: ${Math.round(this.config.rankTextFontSizePx * 0.6)}px; margin-top: 4px; }
+        #achievement {
+            font-size: ${Math.round(this.config.rankTextFontSizePx * 0.5)}px;
+            margin-top: 8px;
+            white-space: nowrap;
+            opacity: 0;
+            transition: opacity 0.6s ease-out;
+        }
+        #achievement.visible { opacity: 1; animation: slam 0.25s ease-in; }
+        @keyframes slam {
+            from { transform: scale(3); opacity: 0; }
+            to { transform: scale(1); opacity: 1; }
+        }
+    </style>
+</head>
+<body>
+    <div id="paused">PAUSED</div>
+    <div id="hud">
+        <div id="rank"><span id="letter"></span><span id="small" class="faded"></span></div>
+        <div id="meter-track"><div id="meter"></div></div>
+        <div id="combo"></div>
+        <div id="achievement"></div>
+    </div>
+    <script nonce="${nonce}">
+        const state = ${data};
+        const letter = document.getElementById('letter');
+        const small = document.getElementById('small');
+        const meter = document.getElementById('meter');
+        const combo = document.getElementById('combo');
+        const achievement = document.getElementById('achievement');
+        let smallTimer;
+        let achievementTimer;
+
+        function setRank(rankIndex, animate) {
+            const rank = state.ranks[rankIndex];
+            document.getElementById('hud').style.visibility = rank ? 'visible' : 'hidden';
+            if (!rank) {
+                return;
+            }
+            letter.textContent = rank.text;
+            letter.style.color = rank.color;
+            small.textContent = rank.smallText;
+            small.style.color = rank.smallColor;
+            if (!animate) {
+                return;
+            }
+
+            // restart the slam-in animation
+            letter.classList.remove('slam');
+            void letter.offsetWidth;
+            letter.classList.add('slam');
+
+            small.classList.remove('faded');
+            clearTimeout(smallTimer);
+            smallTimer = setTimeout(function () { small.classList.add('faded'); }, state.rankTextTimeoutMs);
+        }
+
+        // show a message in place of the small rank text until it fades
+        // even with no rank showing
+        function flash(message) {
+            document.getElementById('hud').style.visibility = 'visible';
+            if (!state.ranks[state.rankIndex]) {
+                letter.textContent = '';
+            }
+            small.textContent = message.message;
+            small.style.color = message.color;
+            small.classList.remove('faded');
+            clearTimeout(smallTimer);
+            smallTimer = setTimeout(function () {
+                small.classList.add('faded');
+                setRank(state.rankIndex, false);
+            }, state.flashTimeoutMs);
+        }
+
+        function setPaused(paused) {
+            document.getElementById('hud').classList.toggle('paused', paused);
+            document.getElementById('paused').classList.toggle('visible', paused);
+        }
+
+        function showAchievement(name) {
+            achievement.textContent = 'Achievement unlocked: ' + name;
+            achievement.classList.remove('visible');
+            void achievement.offsetWidth;
+            achievement.classList.add('visible');
+            clearTimeout(achievementTimer);
+            achievementTimer = setTimeout(function () {
+                achievement.classList.remove('visible');
+            }, state.achievementDisplayMs);
+        }
+
+        function setMeter(message) {
+            meter.style.width = (message.progress * 100) + '%';
+            meter.style.backgroundColor = message.color;
+        }
+
+        window.addEventListener('message', function (event) {
+            const message = event.data;
+            if (message.type === 'rank') {
+                state.rankIndex = message.rankIndex;
+                setRank(message.rankIndex, true);
+            } else if (message.type === 'meter') {
+                setMeter(message);
+            } else if (message.type === 'combo') {
+                combo.textContent = message.combo ? 'x' + message.combo : '';
+            } else if (message.type === 'pause') {
+                setPaused(message.paused);
+            } else if (message.type === 'flash') {
+                flash(message);
+            } else if (message.type === 'achievement') {
+                showAchievement(message.name);
+            }
+        });
+
+        setRank(state.rankIndex, false);
+        setMeter(state.meter);
+        setPaused(state.paused);
+    </script>
+</body>
+</html>`;
+    }
+}
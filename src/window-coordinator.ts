@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { RankChangeEvent, ScoreChangeEvent, ScoreFeed, ScoreKeeper } from './score-keeper';
+
+
+/**
+ * How long to wait before trying to take over after the music owner closes.
+ * A random part keeps every window from trying at once.
+ */
+const ELECTION_DELAY_MS = 200;
+const ELECTION_JITTER_MS = 300;
+
+/**
+ * Unix socket paths longer than this don't work on every system.
+ */
+const MAX_SOCKET_PATH_LENGTH = 100;
+
+
+/**
+ * Elects one VSCode window to own the music, through a local socket that every window tries to listen on.
+ * The window that gets the socket is the owner, and the others connect to it and forward their scores.
+ * The music follows the most active window, the one with the highest score.
+ * When the owner closes, the others race to take the socket over.
+ */
+export class WindowCoordinator implements ScoreFeed {
+    public _onScoreChange = new vscode.EventEmitter<ScoreChangeEvent>();
+    public _onRankChange = new vscode.EventEmitter<RankChangeEvent>();
+    public _onDidBecomeOwner = new vscode.EventEmitter<void>();
+
+    private _socketPath: string;
+
+    // the socket every other window connects to, while this window owns the music
+    private _server?: net.Server;
+
+    // the latest score of each other window, while this window owns the music
+    private _windows = new Map<net.Socket, ScoreChangeEvent>();
+
+    // the connection to the owner, while another window owns the music
+    private _client?: net.Socket;
+
+    // the score the music follows
+    private _combined: ScoreChangeEvent;
+
+    private _electionTimer?: NodeJS.Timer;
+    private _disposed = false;
+
+    private _disposables: vscode.Disposable[] = [
+        this._onScoreChange,
+        this._onRankChange,
+        this._onDidBecomeOwner,
+    ];
+
+    constructor(private readonly _scoreKeeper: ScoreKeeper, storagePath: string) {
+        this._socketPath = _getSocketPath(storagePath);
+        this._combined = { rankIndex: this._scoreKeeper.rankIndex(), score: this._scoreKeeper.score() };
+        this._scoreKeeper.onScoreChange(this._onLocalScoreChange, this, this._disposables);
+        this._elect();
+    }
+
+    get onScoreChange() {
+        return this._onScoreChange.event;
+    }
+
+    get onRankChange() {
+        return this._onRankChange.event;
+    }
+
+    /**
+     * Fires when this window takes ownership of the music.
+     */
+    get onDidBecomeOwner() {
+        return this._onDidBecomeOwner.event;
+    }
+
+    get isOwner(): boolean {
+        return this._server !== undefined;
+    }
+
+    public score(): number {
+        return this._combined.score;
+    }
+
+    public rankIndex(): number {
+        return this._combined.rankIndex;
+    }
+
+    public dispose() {
+        this._disposed = true;
+        for (let d of this._disposables) {
+            d.dispose();
+        }
+        if (this._electionTimer) {
+            clearTimeout(this._electionTimer);
+        }
+
+        // closing the server lets another window take over
+        if (this._server) {
+            this._windows.forEach((event, socket) => socket.destroy());
+            this._server.close();
+        }
+        if (this._client) {
+            this._client.destroy();
+        }
+    }
+
+    // try to own the socket, or follow whoever does
+    private _elect() {
+        if (this._disposed) {
+            return;
+        }
+
+        const server = net.createServer(socket => this._onFollowerConnect(socket));
+        server.on('error', (err: NodeJS.ErrnoException) => {
+            if (err.code === 'EADDRINUSE' && !this._server) {
+                this._follow();
+            }
+        });
+        server.listen(this._socketPath, () => {
+            if (this._disposed) {
+                server.close();
+                return;
+            }
+            this._server = server;
+            this._update();
+            this._onDidBecomeOwner.fire();
+        });
+    }
+
+    private _follow() {
+        const client = net.connect(this._socketPath);
+        client.on('connect', () => {
+            this._client = client;
+            this._send();
+        });
+        client.on('error', (err: NodeJS.ErrnoException) => {
+            // nobody is listening on the socket, so the owner must have crashed without cleaning it up
+            if (err.code === 'ECONNREFUSED' && process.platform !== 'win32') {
+                try {
+                    fs.unlinkSync(this._socketPath);
+                } catch (unlinkErr) {
+                    // another window cleaned it up first
+                }
+            }
+        });
+        client.on('close', () => {
+            if (this._client === client) {
+                this._client = undefined;
+            }
+            this._scheduleElection();
+        });
+    }
+
+    private _scheduleElection() {
+        if (this._disposed) {
+            return;
+        }
+        this._electionTimer = setTimeout(() => this._elect(), ELECTION_DELAY_MS + Math.random() * ELECTION_JITTER_MS);
+    }
+
+    private _onFollowerConnect(socket: net.Socket) {
+        let buffer = '';
+        socket.setEncoding('utf8');
+        socket.on('data', (data: string) => {
+            // messages are one JSON score per line
+            buffer += data;
+            const lines = buffer.split('\n');
+            buffer = lines.pop()!;
+            for (let line of lines) {
+                try {
+                    const event = JSON.parse(line);
+                    this._windows.set(socket, { rankIndex: event.rankIndex, score: event.score });
+                } catch (err) {
+                    // ignore anything garbled
+                }
+            }
+            this._update();
+        });
+        socket.on('error', () => socket.destroy());
+        socket.on('close', () => {
+            this._windows.delete(socket);
+            this._update();
+        });
+    }
+
+    private _onLocalScoreChange() {
+        if (this._client) {
+            this._send();
+        } else {
+            this._update();
+        }
+    }
+
+    private _send() {
+        if (this._client) {
+            const event = { rankIndex: this._scoreKeeper.rankIndex(), score: this._scoreKeeper.score() };
+            this._client.write(JSON.stringify(event) + '\n');
+        }
+    }
+
+    // follow whichever window has the highest score
+    private _update() {
+        let combined = { rankIndex: this._scoreKeeper.rankIndex(), score: this._scoreKeeper.score() };
+        this._windows.forEach(event => {
+            if (event.score > combined.score) {
+                combined = event;
+            }
+        });
+
+        const prevRankIndex = this._combined.rankIndex;
+        this._combined = combined;
+        this._onScoreChange.fire(combined);
+        if (combined.rankIndex !== prevRankIndex) {
+            this._onRankChange.fire({ rankIndex: combined.rankIndex });
+        }
+    }
+}
+
+
+// the same path for every window of the same VSCode install
+function _getSocketPath(storagePath: string): string {
+    const hash = crypto.createHash('md5').update(storagePath).digest('hex').slice(0, 12);
+    if (process.platform === 'win32') {
+        return `\\\\.\\pipe\\style-meter-${hash}`;
+    }
+
+    try {
+        fs.mkdirSync(storagePath);
+    } catch (err) {
+        // it already exists
+    }
+    const socketPath = path.join(storagePath, 'music.sock');
+    if (socketPath.length > MAX_SOCKET_PATH_LENGTH) {
+        return path.join(os.tmpdir(), `style-meter-${hash}.sock`);
+    }
+    return socketPath;
+}